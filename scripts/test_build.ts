@@ -0,0 +1,12 @@
+// Builds the library once before the tests (see bunfig.toml), for the tests running it under Node: Node cannot
+// start the TypeScript worker entry, only the one the build emits. The build is removed once the tests are done.
+import { afterAll } from "bun:test";
+import { rm } from "node:fs/promises";
+import { build } from "vite";
+
+// Built next to the dependencies, which the library imports
+const outDir = new URL("../node_modules/.cache/hyli-noir-test-build/", import.meta.url).pathname;
+
+await build({ logLevel: "silent", build: { outDir, emptyOutDir: true, sourcemap: false, minify: false } });
+process.env.HYLI_NOIR_TEST_BUILD = outDir;
+afterAll(() => rm(outDir, { recursive: true, force: true }));
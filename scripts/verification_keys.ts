@@ -0,0 +1,59 @@
+// Derives the verification keys of the bundled circuits into src/verification_keys.json.
+// Run with `bun run verification_keys` whenever a circuit or the bb.js version changes, and commit the table.
+// With `--check`, run before publishing, only checks that the committed table covers the bundled circuits.
+import { UltraHonkBackend } from "@aztec/bb.js";
+import { CompiledCircuit } from "@noir-lang/types";
+import { readFile, writeFile } from "node:fs/promises";
+import { encodeToHex, sha256, stringToBytes } from "../src/common";
+import { BB_VERSION, BUNDLED_VERIFICATION_KEYS, VerificationKeys } from "../src/verification_keys";
+
+const circuits = {
+  check_secret: "../check-secret/target/check_secret.json",
+  check_jwt: "../check-jwt/target/check_jwt.json",
+  check_secret_rotation: "../check-secret-rotation/target/check_secret_rotation.json",
+};
+
+const read = async (path: string) => JSON.parse(await readFile(new URL(path, import.meta.url), "utf8"));
+
+if (process.argv.includes("--check")) {
+  const errors: string[] = [];
+  if (BUNDLED_VERIFICATION_KEYS.bb_version != BB_VERSION) {
+    errors.push(`keys were derived with bb.js ${BUNDLED_VERIFICATION_KEYS.bb_version}, the library is built with ${BB_VERSION}`);
+  }
+  for (const [name, path] of Object.entries(circuits)) {
+    const circuit: CompiledCircuit & { hash: unknown } = await read(path);
+    const entry = BUNDLED_VERIFICATION_KEYS.circuits[String(circuit.hash)];
+    if (entry?.name != name || entry.bytecode_sha256 != encodeToHex(await sha256(stringToBytes(circuit.bytecode)))) {
+      errors.push(`${name}: no key for its bytecode (hash ${circuit.hash})`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`src/verification_keys.json is stale, run \`bun run verification_keys\`:\n${errors.join("\n")}`);
+  }
+  console.log("src/verification_keys.json covers the bundled circuits");
+  process.exit(0);
+}
+
+const { version } = await read("../node_modules/@aztec/bb.js/package.json");
+if (version != BB_VERSION) {
+  // The library would ignore keys derived with another version
+  throw new Error(`bb.js ${version} is installed, the library is built with ${BB_VERSION}`);
+}
+const keys: VerificationKeys = { bb_version: version, circuits: {} };
+
+for (const [name, path] of Object.entries(circuits)) {
+  const circuit: CompiledCircuit & { hash: unknown } = await read(path);
+  const backend = new UltraHonkBackend(circuit.bytecode);
+  try {
+    keys.circuits[String(circuit.hash)] = {
+      name,
+      bytecode_sha256: encodeToHex(await sha256(stringToBytes(circuit.bytecode))),
+      vk: encodeToHex(await backend.getVerificationKey()),
+    };
+  } finally {
+    await backend.destroy();
+  }
+  console.log(`${name}: ${circuit.hash}`);
+}
+
+await writeFile(new URL("../src/verification_keys.json", import.meta.url), JSON.stringify(keys, null, 2) + "\n");
@@ -0,0 +1,55 @@
+import { expect, test } from "bun:test";
+import { Abi, CompiledCircuit } from "@noir-lang/types";
+import jwtCircuit from "../check-jwt/target/check_jwt.json";
+import secretCircuit from "../check-secret/target/check_secret.json";
+import { abi, check_jwt, check_secret } from "./lib";
+import { AbiCheckingProver, jwt_signer } from "./testing";
+
+const circuitAbi: Abi = {
+  parameters: [
+    {
+      name: "output",
+      visibility: "public",
+      type: {
+        kind: "struct",
+        path: "hyli_noir_sdk::BlobInput",
+        fields: [
+          { name: "identity", type: { kind: "string", length: 8 } },
+          { name: "contract_name", type: { kind: "string", length: 8 } },
+          { name: "pair", type: { kind: "tuple", fields: [{ kind: "field" }, { kind: "integer", sign: "signed", width: 8 }] } },
+        ],
+      },
+    },
+  ],
+  return_type: null,
+  error_types: {},
+};
+
+test("validates nested inputs against the ABI", () => {
+  const valid = { output: { identity: "é@walle", contract_name: "wallet00", pair: ["0x2a", -128] } };
+  expect(abi.validate_inputs(circuitAbi, valid)).toEqual([]);
+
+  const wrong = { output: { identity: "é@walle", contract_name: "wallét0", pair: ["x", 128], extra: true } };
+  expect(abi.validate_inputs(circuitAbi, wrong)).toEqual([
+    { path: "output.contract_name", message: 'non-ASCII character "é" at position 4' },
+    { path: "output.pair[0]", message: 'expected a Field, got "x"' },
+    { path: "output.pair[1]", message: "128 is out of range for i8" },
+    { path: "output.extra", message: "not a parameter of the circuit" },
+  ]);
+  expect(abi.validate_inputs(circuitAbi, valid, { utf8_fields: [] })).toEqual([
+    { path: "output.identity", message: 'non-ASCII character "é" at position 0' },
+  ]);
+});
+
+test("accepts the inputs built for the bundled circuits", async () => {
+  const secret = new AbiCheckingProver(secretCircuit as CompiledCircuit);
+  await check_secret.build_proof_transaction("bob@wallet", "hunter2", "ab".repeat(32), 0, 1, secret);
+  expect(abi.validate_inputs(secretCircuit.abi as Abi, secret.executed[0])).toEqual([]);
+
+  const { pubkey, sign } = await jwt_signer("google-1");
+  const token = await sign({ iss: "https://accounts.google.com", email: "bob@gmail.com", email_verified: true, nonce: "42" });
+  const { blob } = await check_jwt.build_blob_from_jwt(token, [pubkey]);
+  const jwt = new AbiCheckingProver(jwtCircuit as CompiledCircuit);
+  await check_jwt.build_proof_transaction("bob@check_jwt", blob.data, "ab".repeat(32), 0, 1, token, pubkey, jwt);
+  expect(abi.validate_inputs(jwtCircuit.abi as Abi, jwt.executed[0])).toEqual([]);
+});
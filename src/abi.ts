@@ -0,0 +1,275 @@
+import { Abi, AbiType, InputMap, InputValue } from "@noir-lang/types";
+import { assert, stringToBytes } from "./common";
+import { AbiProblem, AbiValidationError } from "./errors";
+
+/**
+ * Returns the number of field elements an ABI type occupies once flattened.
+ * Strings take one field per byte, arrays, tuples and structs the sum of their elements.
+ *
+ * @param type - The ABI type
+ * @returns The number of fields of the type
+ */
+export const abi_type_size = (type: AbiType): number => {
+  switch (type.kind) {
+    case "field":
+    case "boolean":
+    case "integer":
+      return 1;
+    case "string":
+      return type.length;
+    case "array":
+      return type.length * abi_type_size(type.type);
+    case "tuple":
+      return type.fields.reduce((acc, field) => acc + abi_type_size(field), 0);
+    case "struct":
+      return type.fields.reduce((acc, field) => acc + abi_type_size(field.type), 0);
+  }
+};
+
+/**
+ * Returns the number of public inputs of a circuit, which is the number of 32-byte fields
+ * prepended to a proof by `reconstructHonkProof`.
+ * Public parameters come first, in declaration order, followed by a public return value.
+ *
+ * @param abi - The ABI of the compiled circuit
+ * @returns The number of public input fields
+ */
+export const count_public_inputs = (abi: Abi): number => {
+  const parameters = abi.parameters
+    .filter((parameter) => parameter.visibility == "public")
+    .reduce((acc, parameter) => acc + abi_type_size(parameter.type), 0);
+  const return_value = abi.return_type?.visibility == "public" ? abi_type_size(abi.return_type.abi_type) : 0;
+  return parameters + return_value;
+};
+
+/**
+ * A value decoded from field elements according to an ABI type.
+ * Fields and integers wider than 32 bits are returned as bigints.
+ */
+export type AbiValue = number | bigint | boolean | string | AbiValue[] | { [key: string]: AbiValue };
+
+/**
+ * Decodes the public parameters of a circuit from its public input fields.
+ *
+ * @param abi - The ABI of the compiled circuit
+ * @param fields - The public input fields, in order
+ * @returns The decoded values, keyed by parameter name
+ */
+export const decode_public_inputs = (abi: Abi, fields: bigint[]): Record<string, AbiValue> => {
+  assert(fields.length == count_public_inputs(abi), `Got ${fields.length} public inputs, circuit has ${count_public_inputs(abi)}`);
+
+  let offset = 0;
+  const next = (): bigint => fields[offset++];
+
+  const values: Record<string, AbiValue> = {};
+  for (const parameter of abi.parameters) {
+    if (parameter.visibility == "public") {
+      values[parameter.name] = decodeValue(parameter.type, next);
+    }
+  }
+  return values;
+};
+
+/**
+ * Names of the string parameters and struct fields holding UTF-8 text by default.
+ * Identities are encoded as UTF-8 bytes (see `identity.encode_identity`), other strings are expected to be ASCII.
+ */
+export const UTF8_STRING_FIELDS = ["identity"];
+
+/**
+ * Options of `validate_inputs`.
+ */
+export interface InputValidationOptions {
+  /** Names of the string parameters and struct fields allowed to hold non-ASCII characters (defaults to `UTF8_STRING_FIELDS`). */
+  utf8_fields?: string[];
+}
+
+/**
+ * Checks circuit inputs against the circuit ABI, and reports every problem found:
+ * missing or extra parameters and struct fields, wrong array and string lengths, out of range
+ * integers and non-ASCII characters in strings. Strings are compared to their `str<N>` length in
+ * UTF-8 bytes, as the circuit sees them.
+ *
+ * @param abi - The ABI of the compiled circuit
+ * @param inputs - The circuit inputs
+ * @param options - The strings allowed to hold UTF-8 text
+ * @returns The problems found, empty if the inputs match the ABI
+ */
+export const validate_inputs = (abi: Abi, inputs: InputMap, options: InputValidationOptions = {}): AbiProblem[] => {
+  const utf8_fields = new Set(options.utf8_fields ?? UTF8_STRING_FIELDS);
+  const problems: AbiProblem[] = [];
+  const fields = abi.parameters.map((parameter) => ({ name: parameter.name, type: parameter.type }));
+  validateFields(fields, inputs, "", problems, utf8_fields);
+  return problems;
+};
+
+/**
+ * Throws if the circuit inputs do not match the circuit ABI.
+ *
+ * @param abi - The ABI of the compiled circuit
+ * @param inputs - The circuit inputs
+ * @param options - The strings allowed to hold UTF-8 text
+ * @throws AbiValidationError with code `ABI_MISMATCH`, listing every problem found
+ */
+export const assert_valid_inputs = (abi: Abi, inputs: InputMap, options: InputValidationOptions = {}): void => {
+  const problems = validate_inputs(abi, inputs, options);
+  if (problems.length > 0) {
+    throw new AbiValidationError(problems);
+  }
+};
+
+const validateFields = (
+  fields: { name: string; type: AbiType }[],
+  value: InputMap,
+  path: string,
+  problems: AbiProblem[],
+  utf8_fields: Set<string>
+): void => {
+  for (const field of fields) {
+    const fieldPath = path ? `${path}.${field.name}` : field.name;
+    if (value[field.name] === undefined) {
+      problems.push({ path: fieldPath, message: `missing ${typeName(field.type)}` });
+    } else {
+      validateValue(field.type, value[field.name], fieldPath, problems, utf8_fields.has(field.name), utf8_fields);
+    }
+  }
+  for (const name of Object.keys(value)) {
+    if (!fields.some((field) => field.name == name)) {
+      problems.push({ path: path ? `${path}.${name}` : name, message: "not a parameter of the circuit" });
+    }
+  }
+};
+
+const validateValue = (
+  type: AbiType,
+  value: InputValue,
+  path: string,
+  problems: AbiProblem[],
+  utf8: boolean,
+  utf8_fields: Set<string>
+): void => {
+  const problem = (message: string) => problems.push({ path, message });
+
+  switch (type.kind) {
+    case "field":
+      if (toBigInt(value) == undefined) {
+        problem(`expected a Field, got ${describe(value)}`);
+      }
+      return;
+    case "boolean":
+      if (typeof value != "boolean") {
+        problem(`expected a bool, got ${describe(value)}`);
+      }
+      return;
+    case "integer": {
+      const integer = toBigInt(value);
+      const min = type.sign == "signed" ? -(1n << BigInt(type.width - 1)) : 0n;
+      const max = (type.sign == "signed" ? 1n << BigInt(type.width - 1) : 1n << BigInt(type.width)) - 1n;
+      if (integer == undefined) {
+        problem(`expected ${typeName(type)}, got ${describe(value)}`);
+      } else if (integer < min || integer > max) {
+        problem(`${integer} is out of range for ${typeName(type)}`);
+      }
+      return;
+    }
+    case "string": {
+      if (typeof value != "string") {
+        problem(`expected ${typeName(type)}, got ${describe(value)}`);
+        return;
+      }
+      const non_ascii = [...value].findIndex((char) => char.charCodeAt(0) > 0x7f);
+      if (non_ascii >= 0 && !utf8) {
+        problem(`non-ASCII character "${[...value][non_ascii]}" at position ${non_ascii}`);
+      }
+      const len = stringToBytes(value).length;
+      if (len != type.length) {
+        problem(`expected ${typeName(type)}, got ${len} bytes`);
+      }
+      return;
+    }
+    case "array":
+    case "tuple": {
+      const types = type.kind == "array" ? new Array<AbiType>(type.length).fill(type.type) : type.fields;
+      if (!Array.isArray(value)) {
+        problem(`expected ${typeName(type)}, got ${describe(value)}`);
+      } else if (value.length != types.length) {
+        problem(`expected ${typeName(type)}, got ${value.length} elements`);
+      } else {
+        value.forEach((element, i) => validateValue(types[i], element, `${path}[${i}]`, problems, utf8, utf8_fields));
+      }
+      return;
+    }
+    case "struct":
+      if (typeof value != "object" || value == null || Array.isArray(value)) {
+        problem(`expected struct ${type.path}, got ${describe(value)}`);
+      } else {
+        validateFields(type.fields, value as InputMap, path, problems, utf8_fields);
+      }
+      return;
+  }
+};
+
+const toBigInt = (value: InputValue): bigint | undefined => {
+  if (typeof value == "number") {
+    return Number.isSafeInteger(value) ? BigInt(value) : undefined;
+  }
+  if (typeof value == "string" && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value)) {
+    return BigInt(value);
+  }
+  return undefined;
+};
+
+const typeName = (type: AbiType): string => {
+  switch (type.kind) {
+    case "field":
+      return "Field";
+    case "boolean":
+      return "bool";
+    case "integer":
+      return `${type.sign == "signed" ? "i" : "u"}${type.width}`;
+    case "string":
+      return `str<${type.length}>`;
+    case "array":
+      return `[${typeName(type.type)}; ${type.length}]`;
+    case "tuple":
+      return `(${type.fields.map(typeName).join(", ")})`;
+    case "struct":
+      return type.path;
+  }
+};
+
+const describe = (value: InputValue): string => {
+  if (Array.isArray(value)) {
+    return `an array of ${value.length} elements`;
+  }
+  if (typeof value == "object") {
+    return "a struct";
+  }
+  return typeof value == "string" ? `"${value.length > 32 ? value.slice(0, 32) + "..." : value}"` : `${typeof value} ${String(value)}`;
+};
+
+const decodeValue = (type: AbiType, next: () => bigint): AbiValue => {
+  switch (type.kind) {
+    case "field":
+      return next();
+    case "boolean":
+      return next() != 0n;
+    case "integer": {
+      let value = next();
+      if (type.sign == "signed" && value >= 1n << BigInt(type.width - 1)) {
+        value -= 1n << BigInt(type.width);
+      }
+      return type.width <= 32 ? Number(value) : value;
+    }
+    case "string": {
+      const bytes = Uint8Array.from({ length: type.length }, () => Number(next()));
+      return new TextDecoder().decode(bytes);
+    }
+    case "array":
+      return Array.from({ length: type.length }, () => decodeValue(type.type, next));
+    case "tuple":
+      return type.fields.map((field) => decodeValue(field, next));
+    case "struct":
+      return Object.fromEntries(type.fields.map((field) => [field.name, decodeValue(field.type, next)]));
+  }
+};
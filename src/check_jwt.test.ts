@@ -1,5 +1,6 @@
-import { UltraHonkBackend } from "@aztec/bb.js";
-import { check_jwt, check_secret } from "./lib";
+import { expect } from "bun:test";
+import { reconstructHonkProof, UltraHonkBackend } from "@aztec/bb.js";
+import { check_jwt, noir_utils } from "./lib";
 
 const data = {
   blob: [
@@ -1052,3 +1053,11 @@ const { witness } = await noir.execute(data as InputMap);
 
 const proof = await backend.generateProof(witness);
 const provingTime = performance.now() - startTime;
+
+const proofTx = {
+  contract_name: check_jwt.contract_name,
+  program_id: Array.from(vk),
+  verifier: "noir",
+  proof: Array.from(reconstructHonkProof(noir_utils.flattenFieldsAsArray(proof.publicInputs), proof.proof)),
+};
+expect(await check_jwt.verify_proof_transaction(proofTx)).toBe(true);
@@ -1,24 +1,108 @@
-import { Barretenberg, Fr, reconstructHonkProof, UltraHonkBackend } from "@aztec/bb.js";
-import { CompiledCircuit, InputMap, Noir } from "@noir-lang/noir_js";
-import defaultCircuit from "../check-jwt/target/check_jwt.json";
-import { assert, b64urlToU8, bytesToBigInt, flattenFieldsAsArray } from "./common";
+import { Barretenberg, Fr } from "@aztec/bb.js";
+import { InputMap } from "@noir-lang/noir_js";
+import { bundled_circuit, CircuitSource } from "./circuit";
+import { b64urlToU8, bytesToBigInt } from "./common";
+import { JwtError } from "./errors";
+import { Jwk, JwksClient } from "./jwks";
+import { assert_valid_jwt, decode_jwt, JwtValidationOptions } from "./jwt";
+import { google, OidcProvider, provider_keys } from "./oidc";
+import { login as login_with, LoginOptions, LoginResult } from "./login";
+import { define_noir_contract, RegistrationOptions, SimulationResult } from "./contract";
+import { RegistrationResult } from "./proof";
+import { Prover, ProverOptions } from "./prover";
+import { Telemetry } from "./telemetry";
+import { parse_tx_hash, TxHashInput } from "./tx_hash";
 import { generateInputs } from "noir-jwt";
-import { Blob, NodeApiHttpClient } from "hyli";
+import { Blob, NodeApiHttpClient, ProofTransaction } from "hyli";
 
 export const contract_name = "check_jwt";
 
+// Imported on first use, so that bundles only download the circuit when proving.
+// It was compiled with Noir 1.0.0-beta.11, older than MIN_NOIR_VERSION: loading it fails until it is recompiled,
+// pass a recompiled circuit meanwhile.
+const defaultCircuit = bundled_circuit(() => import("../check-jwt/target/check_jwt.json"), {
+  hash: "4169979028731617602",
+  noir_version: "1.0.0-beta.11",
+  bytecode_sha256: "8b1f70b2ea995fc206d5653d8535606d8e8598b25b5b608fe12d09ea08928e6b",
+});
+
+/**
+ * The parameters of a check_jwt proof.
+ */
+export interface JwtProofParams {
+  /** The user's identity string. */
+  identity: string;
+  /** The data of the check_jwt blob, as built by `build_blob_from_jwt`. */
+  stored_hash: number[];
+  /** The signed JWT. */
+  idToken: string;
+  /** The public key of the JWT, in JWK format. */
+  jwtPubkey: JsonWebKey;
+  /** The identity provider of the JWT, giving its claim names and signed data length. */
+  provider: OidcProvider;
+}
+
+/**
+ * The check_jwt contract, proving that the blob commits to the email, nonce and key of a JWT signed by its issuer.
+ */
+export const contract = define_noir_contract<JwtProofParams>({
+  name: contract_name,
+  circuit: defaultCircuit,
+  encodeBlob: ({ stored_hash }) => stored_hash,
+  buildPrivateInputs: async ({ idToken, jwtPubkey, provider }) => {
+    if (!idToken || !jwtPubkey) {
+      throw new JwtError("MISSING_JWT_INPUTS", "[JWT Circuit] idToken and jwtPubkey are required");
+    }
+    const jwtInputs = await generateInputs({
+      jwt: idToken,
+      pubkey: jwtPubkey,
+      shaPrecomputeTillKeys: [provider.claims.email, provider.claims.email_verified, provider.claims.nonce],
+      maxSignedDataLength: provider.max_signed_data_length,
+    });
+
+    return {
+      partial_data: jwtInputs.partial_data,
+      partial_hash: jwtInputs.partial_hash,
+      full_data_length: jwtInputs.full_data_length,
+      base64_decode_offset: jwtInputs.base64_decode_offset,
+      jwt_pubkey_modulus_limbs: jwtInputs.pubkey_modulus_limbs,
+      jwt_pubkey_redc_params_limbs: jwtInputs.redc_params_limbs,
+      jwt_signature_limbs: jwtInputs.signature_limbs,
+    } as InputMap;
+  },
+  failure_reasons: {
+    "blob mail": "the email of the JWT does not match the blob",
+    "blob not matching": "the nonce or public key of the JWT does not match the blob",
+    email_verified: "the email of the JWT is not verified",
+  },
+});
+
+/**
+ * Creates a Prover for the JWT circuit, to be reused across proofs.
+ * The Prover must be destroyed once it is no longer needed.
+ *
+ * @param {CircuitSource} circuit - The compiled circuit or a circuit loader (defaults to check-jwt).
+ * @param {ProverOptions} options - Prover options, e.g. `{ worker: true }` to prove off the main thread, or telemetry hooks.
+ * @returns {Prover} A Prover for the circuit.
+ */
+export const create_prover = (circuit: CircuitSource = defaultCircuit, options: ProverOptions = {}): Prover => {
+  return new Prover(circuit, { name: contract_name, ...options });
+};
+
 /**
  * Generates a cryptographic proof for a transaction using a JWT circuit.
  *
  * @param {Object} params - Parameters required for proof generation.
  * @param {string} params.identity - The user's identity string.
  * @param {number[]} params.stored_hash - The precomputed/stored hash.
- * @param {string} params.tx - The transaction identifier or hash.
+ * @param {TxHashInput} params.tx - The blob transaction hash, as a hex string (with or without `0x`) or bytes.
  * @param {number} params.blob_index - The index of the blob within the transaction.
  * @param {number} params.tx_blob_count - The total number of blobs in the transaction.
  * @param {string} params.idToken - The signed JWT token.
  * @param {JsonWebKey} params.jwtPubkey - The JWT public key in JWK format.
- * @param {CompiledCircuit} params.circuit - The compiled circuit to execute (defaults to check-jwt).
+ * @param {CircuitSource | Prover} params.circuit - The compiled circuit to execute or a Prover created with create_prover (defaults to check-jwt).
+ * @param {Telemetry} params.telemetry - Logger and metrics hooks for this proof (defaults to the Prover's, if any).
+ * @param {OidcProvider} params.provider - The identity provider of the JWT, giving its claim names and signed data length (defaults to Google).
  *
  * @returns {Promise<{ contract_name: string; program_id: number[]; verifier: string; proof: number[] }>}
  * An object containing verifier details and the generated proof.
@@ -26,56 +110,74 @@ export const contract_name = "check_jwt";
 export const build_proof_transaction = async (
   identity: string,
   stored_hash: number[],
-  tx: string,
+  tx: TxHashInput,
   blob_index: number,
   tx_blob_count: number,
   idToken: string,
   jwtPubkey: JsonWebKey,
-  circuit: CompiledCircuit = defaultCircuit as CompiledCircuit
+  circuit: CircuitSource | Prover = defaultCircuit,
+  telemetry?: Telemetry,
+  provider: OidcProvider = google
 ): Promise<{ contract_name: string; program_id: number[]; verifier: string; proof: number[] }> => {
   if (!idToken || !jwtPubkey) {
-    throw new Error("[JWT Circuit] Proof generation failed: idToken and jwtPubkey are required");
+    throw new JwtError("MISSING_JWT_INPUTS", "[JWT Circuit] Proof generation failed: idToken and jwtPubkey are required");
   }
+  const tx_hash = parse_tx_hash(tx);
 
-  const jwtInputs = await generateInputs({
-    jwt: idToken,
-    pubkey: jwtPubkey,
-    shaPrecomputeTillKeys: ["email", "email_verified", "nonce"],
-    maxSignedDataLength: 640,
-  });
-
-  const inputs = {
-    ...generateProverData(identity, stored_hash, tx, blob_index, tx_blob_count),
-    partial_data: jwtInputs.partial_data,
-    partial_hash: jwtInputs.partial_hash,
-    full_data_length: jwtInputs.full_data_length,
-    base64_decode_offset: jwtInputs.base64_decode_offset,
-    jwt_pubkey_modulus_limbs: jwtInputs.pubkey_modulus_limbs,
-    jwt_pubkey_redc_params_limbs: jwtInputs.redc_params_limbs,
-    jwt_signature_limbs: jwtInputs.signature_limbs,
-  };
-
-  const backend = new UltraHonkBackend(circuit.bytecode);
-  const vk = await backend.getVerificationKey();
-  const noir = new Noir(circuit as CompiledCircuit);
-
-  // Generate witness and prove
-  const startTime = performance.now();
-  const { witness } = await noir.execute(inputs as InputMap);
-
-  const proof = await backend.generateProof(witness);
-  const provingTime = performance.now() - startTime;
-
-  const reconstructedProof = reconstructHonkProof(flattenFieldsAsArray(proof.publicInputs), proof.proof);
+  return await contract.prove(
+    { identity, stored_hash, idToken, jwtPubkey, provider },
+    { tx_hash, blob_index, tx_blob_count },
+    { circuit, telemetry }
+  );
+};
 
-  console.log(`Proof generated in ${provingTime}ms`);
+/**
+ * Checks a JWT against a check_jwt blob by running the circuit without proving.
+ * The signature, the claims and the blob are checked in milliseconds, where a proof takes seconds.
+ *
+ * @param {string} identity - The user's identity string.
+ * @param {number[]} stored_hash - The data of the check_jwt blob, as built by build_blob_from_jwt.
+ * @param {string} idToken - The signed JWT token.
+ * @param {JsonWebKey} jwtPubkey - The JWT public key in JWK format.
+ * @param {OidcProvider} provider - The identity provider of the JWT (defaults to Google).
+ * @param {CircuitSource | Prover} circuit - The compiled circuit or its Prover (defaults to check-jwt).
+ * @returns {Promise<SimulationResult>} Success, or the failure reason, e.g. a JWT email not matching the blob.
+ */
+export const simulate = async (
+  identity: string,
+  stored_hash: number[],
+  idToken: string,
+  jwtPubkey: JsonWebKey,
+  provider: OidcProvider = google,
+  circuit: CircuitSource | Prover = defaultCircuit
+): Promise<SimulationResult> => {
+  return await contract.simulate({ identity, stored_hash, idToken, jwtPubkey, provider }, {}, { circuit });
+};
 
-  return {
-    contract_name,
-    program_id: Array.from(vk),
-    verifier: "noir",
-    proof: Array.from(reconstructedProof),
-  };
+/**
+ * Logs in with a JWT: builds the check_jwt blob of the JWT, sends a blob transaction holding it and the
+ * application blobs, then proves the blob and sends the proof. Requests failing on temporary node errors are retried.
+ *
+ * @param {NodeApiHttpClient} node - The NodeApiHttpClient instance to interact with the node.
+ * @param {string} identity - The user's identity string.
+ * @param {string} idToken - The signed JWT token.
+ * @param {Jwk[] | JwksClient | OidcProvider} keys - The JWK set of the issuer, a JwksClient fetching it, or the identity provider
+ * of the JWT, as taken by build_blob_from_jwt.
+ * @param {LoginOptions} options - The application blobs, the circuit, how requests are retried, the validation of the JWT
+ * before proving (see jwt.validate_jwt), and the identity provider of the JWT when `keys` are plain keys or a JwksClient
+ * (defaults to `keys` if it is a provider, or Google).
+ * @returns {Promise<LoginResult>} The hashes of the blob and proof transactions.
+ */
+export const login = async (
+  node: NodeApiHttpClient,
+  identity: string,
+  idToken: string,
+  keys: Jwk[] | JwksClient | OidcProvider,
+  options: LoginOptions & { validation?: JwtValidationOptions; provider?: OidcProvider } = {}
+): Promise<LoginResult> => {
+  const provider = options.provider ?? (isProvider(keys) ? keys : google);
+  const { blob, pubkey } = await build_blob_from_jwt(idToken, keys, options.validation, provider);
+  return await login_with(node, contract, { identity, stored_hash: blob.data, idToken, jwtPubkey: pubkey, provider }, options);
 };
 
 /**
@@ -104,106 +206,55 @@ export async function jwk_pubkey_mod(jwk: JsonWebKey): Promise<bigint> {
 }
 
 /**
- * Generates prover input data used to feed the zero-knowledge circuit.
- *
- * @param {string} id - User identity string.
- * @param {number[]} stored_hash - Stored hash array.
- * @param {string} tx_hash - Transaction hash.
- * @param {number} blob_index - Index of the blob in the transaction.
- * @param {number} tx_blob_count - Total number of blobs in the transaction.
+ * Extracts specific claims from a JWT.
  *
- * @returns {InputMap} Structured input data for the prover.
+ * @param {string} jwt - A JWT string in the format header.payload.signature.
+ * @param {OidcProvider} provider - The identity provider of the JWT, giving its claim names (defaults to Google).
+ * @returns {{ email: string; nonce: string; kid: string }}
+ * An object containing the normalised email, nonce, and key ID (kid). Missing claims are empty.
  */
-const generateProverData = (id: string, stored_hash: number[], tx_hash: string, blob_index: number, tx_blob_count: number): InputMap => {
-  const version = 1;
-  const initial_state = [0, 0, 0, 0];
-  const initial_state_len = initial_state.length;
-  const next_state = [0, 0, 0, 0];
-  const next_state_len = next_state.length;
-  const identity_len = id.length;
-  const identity = id.padEnd(256, "0");
-  const tx_hash_padded = tx_hash.padEnd(64, "0");
-  const tx_hash_len = tx_hash.length;
-  const index = blob_index;
-  const blob_number = 1;
-  const blob_contract_name_len = contract_name.length;
-  const blob_contract_name = contract_name.padEnd(256, "0");
-  const blob_capacity = 306;
-  const blob_len = 306;
-  const blob: number[] = stored_hash;
-  const success = 1;
-  assert(blob.length == blob_len, `Blob length is ${blob.length} not 306 bytes`);
+export const extract_jwt_claims = (jwt: string, provider: OidcProvider = google): { email: string; nonce: string; kid: string } => {
+  const { header, claims } = decode_jwt(jwt);
+  const email = provider.normalize_email(String(claims[provider.claims.email] ?? ""));
+  const nonce = String(claims[provider.claims.nonce] ?? "").toLowerCase();
+  const kid = header.kid ?? "";
 
-  return {
-    version,
-    initial_state,
-    initial_state_len,
-    next_state,
-    next_state_len,
-    identity,
-    identity_len,
-    tx_hash: tx_hash_padded,
-    tx_hash_len,
-    index,
-    blob_number,
-    blob_index,
-    blob_contract_name_len,
-    blob_contract_name,
-    blob_capacity,
-    blob_len,
-    blob,
-    tx_blob_count,
-    success,
-  };
+  return { email, nonce, kid };
 };
 
 /**
- * Extracts specific claims from a JWT.
+ * Verifies a check_jwt proof transaction locally.
+ * The proof is checked with the UltraHonk backend and its program_id must match the
+ * verification key of the circuit.
  *
- * @param {string} jwt - A JWT string in the format header.payload.signature.
- * @returns {{ email: string; nonce: string; kid: string }}
- * An object containing the email, nonce, and key ID (kid).
+ * @param {ProofTransaction} proofTx - The proof transaction returned by build_proof_transaction.
+ * @param {CircuitSource | Prover} circuit - The compiled circuit or its Prover (defaults to check-jwt).
+ * @returns {Promise<boolean>} True if the proof is valid.
  */
-export const extract_jwt_claims = (jwt: string): { email: string; nonce: string; kid: string } => {
-  const [header, payload] = jwt.split(".");
-  const headers = JSON.parse(atob(header));
-  const json = JSON.parse(atob(payload));
-  const email = json.email.toLowerCase();
-  const nonce = json.nonce.toLowerCase();
-  const kid = headers.kid;
-
-  return { email, nonce, kid };
+export const verify_proof_transaction = async (
+  proofTx: ProofTransaction,
+  circuit: CircuitSource | Prover = defaultCircuit
+): Promise<boolean> => {
+  return await contract.verify(proofTx, circuit);
 };
 
 /**
  * Registers the Noir contract with the node if it is not already registered.
- * The contract is identified by its name "check_secret".
- * If the contract is not found, it registers the contract using the provided circuit.
+ * The contract is identified by its name, "check_jwt" unless another name is given.
+ * If the contract is not found, it registers the contract using the provided circuit. If it exists,
+ * its program_id is checked against the circuit's, to detect a contract deployed with a stale circuit.
  *
  * @param node - The NodeApiHttpClient instance to interact with the NodeApiHttpClient
- * @returns A Promise that resolves when the contract is registered
+ * @param circuit - The compiled Noir circuit or its Prover (defaults to the check_jwt circuit)
+ * @param options - The name to register the contract under
+ * @returns A Promise resolving to the outcome of the registration
  */
 export const register_contract = async (
   node: NodeApiHttpClient,
-  circuit = defaultCircuit as CompiledCircuit
-): Promise<undefined | number[]> => {
-  return await node
-    .getContract(contract_name)
-    .then(() => undefined)
-    .catch(async () => {
-      const backend = new UltraHonkBackend(circuit.bytecode);
-
-      const vk = await backend.getVerificationKey();
-      const contract = {
-        verifier: "noir",
-        program_id: Array.from(vk),
-        state_commitment: [0, 0, 0, 0],
-        contract_name,
-      };
-
-      await node.registerContract(contract);
-      return contract.program_id;
-    });
+  circuit: CircuitSource | Prover = defaultCircuit,
+  options: Omit<RegistrationOptions, "circuit"> = {}
+): Promise<RegistrationResult> => {
+  return await contract.register(node, { ...options, circuit });
 };
 
 /**
@@ -217,20 +268,40 @@ export const poseidon_hash = async (string: string): Promise<Fr> => {
   return await bb.poseidon2Hash([new Fr(bytesToBigInt(new TextEncoder().encode(string)))]);
 };
 
+/**
+ * Builds the check_jwt blob of a JWT, with the public key matching its kid.
+ *
+ * @param {string} jwt - A JWT string in the format header.payload.signature.
+ * @param {T[] | JwksClient | OidcProvider} keys - The JWK set of the issuer, a JwksClient fetching it, or the identity provider
+ * of the JWT. Plain keys are assumed to be Google's unless a provider is given.
+ * @param {JwtValidationOptions} validation - If given, the JWT signature and claims are validated first (see jwt.validate_jwt).
+ * The issuer of the provider, Google's for plain keys without one, is always expected unless `validation.issuer` replaces it.
+ * @param {OidcProvider} provider - The identity provider of the JWT, giving its claim names, when `keys` are plain keys or a
+ * JwksClient (defaults to `keys` if it is a provider, or Google).
+ * @returns The blob, the nonce and mail hash it commits to, and the public key of the JWT.
+ * @throws {JwtError} If the JWT is rejected by the validation.
+ */
 export const build_blob_from_jwt = async <T extends { kid: string } & JsonWebKey>(
   jwt: string,
-  keys: T[]
+  keys: T[] | JwksClient | OidcProvider,
+  validation?: JwtValidationOptions,
+  provider: OidcProvider = isProvider(keys) ? keys : google
 ): Promise<{ blob: Blob; nonce: number; mail_hash: number[]; pubkey: JsonWebKey }> => {
-  const { email, nonce, kid } = extract_jwt_claims(jwt);
+  const { email, nonce, kid } = extract_jwt_claims(jwt, provider);
 
   if (!email || !nonce || !kid) {
-    const error = "Invalid Google token: missing email, nonce, or kid";
-    throw new Error(error);
+    throw new JwtError("MISSING_JWT_CLAIMS", `Invalid ${provider.name} token: missing email, nonce, or kid`);
   }
 
-  const pubkey: JsonWebKey | undefined = keys.find((key) => key.kid == kid);
+  const source = isProvider(keys) ? provider_keys(keys) : keys;
+  const pubkey: JsonWebKey | undefined = source instanceof JwksClient ? await source.getKey(kid) : source.find((key) => key.kid == kid);
   if (!pubkey) {
-    throw new Error(`Google public key with id ${kid} not found`);
+    throw new JwtError("UNKNOWN_KID", `${provider.name} public key with id ${kid} not found`);
+  }
+  if (validation) {
+    // The issuer of the provider is always expected, Google's when plain keys are given without a provider
+    const expected = { issuer: provider.issuer, email_verified_claim: provider.claims.email_verified };
+    await assert_valid_jwt(jwt, pubkey, { ...expected, ...validation });
   }
 
   const nonce_int = parseInt(nonce, 10);
@@ -271,3 +342,7 @@ export const build_stored_hash = async (
     stored_hash: [...mail_hash.value, 58, ...encoded, ...zeros, 58, ...b64urlToU8(pubkey).reverse()],
   };
 };
+
+const isProvider = (keys: JsonWebKey[] | JwksClient | OidcProvider): keys is OidcProvider => {
+  return !Array.isArray(keys) && !(keys instanceof JwksClient);
+};
@@ -1,3 +1,4 @@
+import { expect } from "bun:test";
 import { check_secret } from "./lib";
 
 const data = {
@@ -36,3 +37,17 @@ const salted_password = "mypassword123:5bcd1emg48e";
 const txHash = "241cc3c3c04120a6a55dbc852b1fa3f5f84589b9d56671fc503524435cd2b2d4";
 const blobLength = 3;
 const proofTx = await check_secret.build_proof_transaction(identity, salted_password, txHash, 0, blobLength);
+
+expect(await check_secret.verify_proof_transaction(proofTx)).toBe(true);
+expect(await check_secret.verify_proof_transaction({ ...proofTx, program_id: proofTx.program_id.map((b) => b ^ 1) })).toBe(false);
+
+// A single prover can generate several proofs in a row
+const secretProver = check_secret.create_prover();
+const proofTxs = [
+  await check_secret.build_proof_transaction(identity, salted_password, txHash, 0, blobLength, secretProver),
+  await check_secret.build_proof_transaction(identity, salted_password, txHash, 1, blobLength, secretProver),
+];
+for (const tx of proofTxs) {
+  expect(await check_secret.verify_proof_transaction(tx, secretProver)).toBe(true);
+}
+await secretProver.destroy();
@@ -1,19 +1,16 @@
-import { Noir } from "@noir-lang/noir_js";
-import { reconstructHonkProof, UltraHonkBackend } from "@aztec/bb.js";
-import { CompiledCircuit, InputMap } from "@noir-lang/types";
 import { Blob, ProofTransaction, NodeApiHttpClient } from "hyli";
 
 /**
- * Hashes a password using SHA-256.
- * The password is converted to a Uint8Array and hashed using SHA-256.
- * The resulting hash is returned as a Uint8Array.
+ * Hashes a password into the 32-byte secret of the circuit.
+ * With the legacy scheme the password is converted to a Uint8Array and hashed using SHA-256,
+ * with a version 2 scheme it is derived with salted PBKDF2 (see `credentials`).
  *
  * @param password - The password string to hash
+ * @param scheme - The credential scheme of the account (defaults to the legacy SHA-256 scheme)
  * @returns A Promise resolving to the Uint8Array of the computed hash
  */
-export const hash_password = async (password: string): Promise<Uint8Array> => {
-  const hashed_password_bytes = await sha256(stringToBytes(password));
-  return hashed_password_bytes;
+export const hash_password = async (password: string, scheme: CredentialScheme = LEGACY_SCHEME): Promise<Uint8Array> => {
+  return await derive_secret(password, scheme);
 };
 
 /**
@@ -27,10 +24,11 @@ export const hash_password = async (password: string): Promise<Uint8Array> => {
  *
  * @param identity - The user's identity string
  * @param password - The user's password string
+ * @param scheme - The credential scheme of the account (defaults to the legacy SHA-256 scheme)
  * @returns A Promise resolving to the hexadecimal string of the computed hash
  */
-export const identity_hash = async (identity: string, password: string): Promise<string> => {
-  const hashed_password_bytes = await sha256(stringToBytes(password));
+export const identity_hash = async (identity: string, password: string, scheme: CredentialScheme = LEGACY_SCHEME): Promise<string> => {
+  const hashed_password_bytes = await derive_secret(password, scheme);
   let encoder = new TextEncoder();
   let id_prefix = encoder.encode(`${identity}:`);
   let extended_id = new Uint8Array([...id_prefix, ...hashed_password_bytes]);
@@ -42,31 +40,75 @@ export const identity_hash = async (identity: string, password: string): Promise
 /**
  * Builds a blob transaction containing a secret derived from an identity and password.
  * The secret is constructed by:
- * 1. Hashing the password in order to have a fixed-size secret
+ * 1. Hashing the password in order to have a fixed-size secret, as given by the credential scheme
  * 2. Concatenating the padded identity (to 64 chars) with ':' and the hashed password
  * 3. Hashing this combined value
  *
  * @param identity - The user's identity string
  * @param password - The user's password string
+ * @param scheme - The credential scheme of the account (defaults to the legacy SHA-256 scheme)
  * @returns A Promise resolving to a BlobTransaction containing the hashed secret
  */
-export const build_blob = async (identity: string, password: string): Promise<Blob> => {
-  const hashed_password_bytes = await sha256(stringToBytes(password));
-  let encoder = new TextEncoder();
-  let id_prefix = encoder.encode(`${identity}:`);
-  let extended_id = new Uint8Array([...id_prefix, ...hashed_password_bytes]);
-  const stored_hash = await sha256(extended_id);
+export const build_blob = async (identity: string, password: string, scheme: CredentialScheme = LEGACY_SCHEME): Promise<Blob> => {
+  const hashed_password_bytes = await derive_secret(password, scheme);
+  return await contract.buildBlob({ identity, secret: hashed_password_bytes });
+};
 
-  const secretBlob: Blob = {
-    contract_name: "check_secret",
-    data: Array.from(stored_hash),
-  };
+import { bundled_circuit, CircuitSource } from "./circuit";
+import { assert, encodeToHex, hexToBytes, sha256 } from "./common";
+import { CredentialScheme, derive_secret, LEGACY_SCHEME } from "./credentials";
+import { define_noir_contract, RegistrationOptions, SimulationResult } from "./contract";
+import { encode_circuit_output, HyliOutput } from "./hyli_output";
+import { login as login_with, LoginOptions, LoginResult } from "./login";
+import { register_contract as register_with, RegistrationResult } from "./proof";
+import { Prover, ProverOptions, with_prover } from "./prover";
+import { Telemetry } from "./telemetry";
+import { parse_tx_hash, TxHashInput } from "./tx_hash";
 
-  return secretBlob;
-};
+// Imported on first use, so that bundles only download the circuit when proving
+const defaultCircuit = bundled_circuit(() => import("../check-secret/target/check_secret.json"), {
+  hash: "10871151069518277438",
+  noir_version: "1.0.0-beta.18",
+  bytecode_sha256: "3205db56e66c82069c5b73489eb7de2e9239101e7a68bf5f61a0f64897079c18",
+});
 
-import defaultCircuit from "../check-secret/target/check_secret.json";
-import { assert, encodeToHex, flattenFieldsAsArray, sha256, stringToBytes } from "./common";
+// The password rotation circuit, whose state commits to the stored hash of each account
+const rotationCircuit = bundled_circuit(() => import("../check-secret-rotation/target/check_secret_rotation.json"), {
+  hash: "1512850952",
+  noir_version: "1.0.0-beta.15",
+  bytecode_sha256: "48618ed8f4a40a428ef788acea97d80f1fdafd1a6f7f33b4c8a063f4cc1a31ed",
+});
+const ROTATION_CONTRACT_NAME = "check_secret_rotation";
+// The depth of the Merkle tree of the rotation accounts, TREE_DEPTH in check-secret-rotation
+const ROTATION_TREE_DEPTH = 8;
+
+/**
+ * The check_secret contract, proving knowledge of the secret whose stored hash is the blob.
+ * The secret is the 32-byte output of `hash_password`.
+ */
+export const contract = define_noir_contract<{ identity: string; secret: Uint8Array }>({
+  name: "check_secret",
+  circuit: defaultCircuit,
+  encodeBlob: ({ identity, secret }) => storedHash(identity, secret),
+  buildPrivateInputs: ({ secret }) => {
+    const password: number[] = Array.from(secret);
+    assert(password.length == 32, "Password length is not 32 bytes");
+    return { password };
+  },
+  failure_reasons: { "input_hash == blob": "wrong password" },
+});
+
+/**
+ * Creates a Prover for the check_secret circuit, to be reused across proofs.
+ * The Prover must be destroyed once it is no longer needed.
+ *
+ * @param circuit - The compiled Noir circuit or a circuit loader (defaults to the check_secret circuit)
+ * @param options - Prover options, e.g. `{ worker: true }` to prove off the main thread, or telemetry hooks
+ * @returns A Prover for the circuit
+ */
+export const create_prover = (circuit: CircuitSource = defaultCircuit, options: ProverOptions = {}): Prover => {
+  return new Prover(circuit, { name: "check_secret", ...options });
+};
 
 /**
  * Builds a proof transaction by generating a zero-knowledge proof for checking a secret.
@@ -78,128 +120,286 @@ import { assert, encodeToHex, flattenFieldsAsArray, sha256, stringToBytes } from
  *
  * @param identity - The user's identity string
  * @param password - The user's password string
- * @param tx_hash - The blob transaction hash string
- * @param circuit - The compiled Noir circuit (defaults to the check_secret circuit)
+ * @param tx_hash - The blob transaction hash, as a hex string (with or without `0x`) or bytes
+ * @param circuit - The compiled Noir circuit or a Prover created with create_prover (defaults to the check_secret circuit)
+ * @param telemetry - Logger and metrics hooks for this proof (defaults to the Prover's, if any)
+ * @param scheme - The credential scheme of the account (defaults to the legacy SHA-256 scheme)
  * @returns A Promise resolving to a ProofTransaction containing the generated proof
  */
 export const build_proof_transaction = async (
   identity: string,
   password: string,
-  tx_hash: string,
+  tx_hash: TxHashInput,
   blob_index: number,
   tx_blob_count: number,
-  circuit: CompiledCircuit = defaultCircuit as CompiledCircuit
+  circuit: CircuitSource | Prover = defaultCircuit,
+  telemetry?: Telemetry,
+  scheme: CredentialScheme = LEGACY_SCHEME
 ): Promise<ProofTransaction> => {
-  const noir = new Noir(circuit);
-  const backend = new UltraHonkBackend(circuit.bytecode);
-  const vk = await backend.getVerificationKey();
+  const tx = parse_tx_hash(tx_hash);
+  const hashed_password_bytes = await derive_secret(password, scheme);
 
-  const hashed_password_bytes = await sha256(stringToBytes(password));
-  let encoder = new TextEncoder();
-  let id_prefix = encoder.encode(`${identity}:`);
-  let extended_id = new Uint8Array([...id_prefix, ...hashed_password_bytes]);
-  const stored_hash = await sha256(extended_id);
-
-  const { witness } = await noir.execute(
-    generateProverData(identity, hashed_password_bytes, stored_hash, tx_hash, blob_index, tx_blob_count)
+  return await contract.prove(
+    { identity, secret: hashed_password_bytes },
+    { tx_hash: tx, blob_index, tx_blob_count },
+    { circuit, telemetry }
   );
+};
 
-  const proof = await backend.generateProof(witness);
-  const reconstructedProof = reconstructHonkProof(flattenFieldsAsArray(proof.publicInputs), proof.proof);
+/**
+ * Checks a password against a stored hash by running the circuit without proving.
+ * This takes milliseconds, where a proof takes seconds.
+ *
+ * @param identity - The user's identity string
+ * @param password - The user's password string
+ * @param stored_hash - The stored hash of the account, as bytes or as returned by identity_hash
+ * @param scheme - The credential scheme of the account (defaults to the legacy SHA-256 scheme)
+ * @param circuit - The compiled Noir circuit or its Prover (defaults to the check_secret circuit)
+ * @returns A Promise resolving to success, or to the failure reason, e.g. "wrong password"
+ */
+export const simulate = async (
+  identity: string,
+  password: string,
+  stored_hash: number[] | string,
+  scheme: CredentialScheme = LEGACY_SCHEME,
+  circuit: CircuitSource | Prover = defaultCircuit
+): Promise<SimulationResult> => {
+  const hashed_password_bytes = await derive_secret(password, scheme);
+  const blob_data = typeof stored_hash == "string" ? Array.from(hexToBytes(stored_hash)) : stored_hash;
+  return await contract.simulate({ identity, secret: hashed_password_bytes }, { blob_data }, { circuit });
+};
 
-  return {
-    contract_name: "check_secret",
-    program_id: Array.from(vk),
-    verifier: "noir",
-    proof: Array.from(reconstructedProof),
-  };
+/**
+ * Logs in with a password: sends a blob transaction holding the check_secret blob and the application blobs,
+ * then proves the check_secret blob and sends the proof. Requests failing on temporary node errors are retried.
+ *
+ * @param node - The NodeApiHttpClient instance to interact with the node
+ * @param identity - The user's identity string
+ * @param password - The user's password string
+ * @param options - The application blobs, the circuit, how requests are retried, and the credential scheme of
+ * the account (defaults to the legacy SHA-256 scheme)
+ * @returns A Promise resolving to the hashes of the blob and proof transactions
+ */
+export const login = async (
+  node: NodeApiHttpClient,
+  identity: string,
+  password: string,
+  options: LoginOptions & { scheme?: CredentialScheme } = {}
+): Promise<LoginResult> => {
+  const hashed_password_bytes = await derive_secret(password, options.scheme ?? LEGACY_SCHEME);
+  return await login_with(node, contract, { identity, secret: hashed_password_bytes }, options);
+};
+
+/**
+ * Verifies a check_secret proof transaction locally.
+ * The proof is checked with the UltraHonk backend and its program_id must match the
+ * verification key of the circuit.
+ *
+ * @param proofTx - The proof transaction returned by build_proof_transaction
+ * @param circuit - The compiled Noir circuit or its Prover (defaults to the check_secret circuit)
+ * @returns A Promise resolving to true if the proof is valid
+ */
+export const verify_proof_transaction = async (
+  proofTx: ProofTransaction,
+  circuit: CircuitSource | Prover = defaultCircuit
+): Promise<boolean> => {
+  return await contract.verify(proofTx, circuit);
 };
 
 /**
  * Registers the Noir contract with the node if it is not already registered.
- * The contract is identified by its name "check_secret".
- * If the contract is not found, it registers the contract using the provided circuit.
+ * The contract is identified by its name, "check_secret" unless another name is given.
+ * If the contract is not found, it registers the contract using the provided circuit. If it exists,
+ * its program_id is checked against the circuit's, to detect a contract deployed with a stale circuit.
  *
  * @param node - The NodeApiHttpClient instance to interact with the NodeApiHttpClient
- * @param circuit - The compiled Noir circuit (defaults to the check_secret circuit)
- * @returns A Promise that resolves when the contract is registered
+ * @param circuit - The compiled Noir circuit or its Prover (defaults to the check_secret circuit)
+ * @param options - The name to register the contract under, and its initial state commitment (defaults to the zero
+ * state the check_secret circuit expects). The rotation contract is registered with register_rotation_contract.
+ * @returns A Promise resolving to the outcome of the registration
  */
 export const register_contract = async (
   node: NodeApiHttpClient,
-  circuit: CompiledCircuit = defaultCircuit as CompiledCircuit
-): Promise<void> => {
-  await node.getContract("check_secret").catch(async () => {
-    const backend = new UltraHonkBackend(circuit.bytecode);
-
-    const vk = await backend.getVerificationKey();
-
-    await node.registerContract({
-      verifier: "noir",
-      program_id: Array.from(vk),
-      state_commitment: [0, 0, 0, 0],
-      contract_name: "check_secret",
-    });
-  });
+  circuit: CircuitSource | Prover = defaultCircuit,
+  options: Omit<RegistrationOptions, "circuit"> = {}
+): Promise<RegistrationResult> => {
+  return await contract.register(node, { ...options, circuit });
 };
 
 /**
- * Generates the prover data required for the Noir circuit.
+ * An account of the password rotation contract.
+ */
+export interface RotationAccount {
+  /** The identity of the account. */
+  identity: string;
+  /** The stored hash of the account, as bytes or as returned by identity_hash. */
+  stored_hash: number[] | string;
+}
+
+/**
+ * Computes the state of the password rotation contract: the root of the Merkle tree of its accounts,
+ * the account at index `i` of the list taking slot `i`. The leaf of an account is
+ * sha256(sha256(identity) || stored hash), an empty slot is 32 zero bytes, and a node sha256(left || right).
  *
- * @param id - The user's identity string
- * @param pwd - The hashed password as a Uint8Array
- * @param stored_hash - The stored hash as a Uint8Array
- * @param tx - The transaction hash string
- * @returns An object containing the prover data
+ * @param accounts - The accounts of the contract, at most 256
+ * @returns A Promise resolving to the 32-byte state commitment
  */
-const generateProverData = (
-  id: string,
-  pwd: Uint8Array,
-  stored_hash: Uint8Array,
-  tx: string,
-  blob_index: number,
-  tx_blob_count: number
-): InputMap => {
-  const version = 1;
-  const initial_state = [0, 0, 0, 0];
-  const initial_state_len = initial_state.length;
-  const next_state = [0, 0, 0, 0];
-  const next_state_len = next_state.length;
-  const identity_len = id.length;
-  const identity = id.padEnd(256, "0");
-  const tx_hash = tx.padEnd(64, "0");
-  const tx_hash_len = tx_hash.length;
-  const index = blob_index;
-  const blob_number = 1;
-  const blob_contract_name_len = "check_secret".length;
-  const blob_contract_name = "check_secret".padEnd(256, "0");
-  const blob_capacity = 32;
-  const blob_len = 32;
-  const blob: number[] = Array.from(stored_hash);
-  const success = 1;
-  const password: number[] = Array.from(pwd);
-  assert(password.length == 32, "Password length is not 32 bytes");
-  assert(blob.length == blob_len, "Blob length is not 32 bytes");
-
-  return {
-    version,
-    initial_state,
-    initial_state_len,
-    next_state,
-    next_state_len,
-    identity,
-    identity_len,
-    tx_hash,
-    tx_hash_len,
-    index,
-    blob_number,
-    blob_index,
-    blob_contract_name_len,
-    blob_contract_name,
-    blob_capacity,
-    blob_len,
-    blob,
-    tx_blob_count,
-    success,
-    password,
+export const rotation_state = async (accounts: RotationAccount[]): Promise<number[]> => {
+  const levels = await rotationTree(accounts);
+  return Array.from(levels[ROTATION_TREE_DEPTH][0]);
+};
+
+/**
+ * Registers the password rotation contract with the node if it is not already registered.
+ * Its state commits to the stored hash of each of its accounts (see rotation_state), and an existing contract
+ * has its program_id checked as in register_contract.
+ *
+ * @param node - The NodeApiHttpClient instance to interact with the node
+ * @param accounts - The accounts of the contract, at most 256
+ * @param circuit - The compiled check-secret-rotation circuit or its Prover (defaults to the check-secret-rotation circuit)
+ * @param options - The name to register the contract under (defaults to "check_secret_rotation")
+ * @returns A Promise resolving to the outcome of the registration
+ */
+export const register_rotation_contract = async (
+  node: NodeApiHttpClient,
+  accounts: RotationAccount[],
+  circuit: CircuitSource | Prover = rotationCircuit,
+  options: { contract_name?: string } = {}
+): Promise<RegistrationResult> => {
+  const state_commitment = await rotation_state(accounts);
+  return await register_with(node, options.contract_name ?? ROTATION_CONTRACT_NAME, circuit, state_commitment);
+};
+
+/**
+ * The blob and proof of a password rotation, moving an account from its current stored hash to the
+ * stored hash of the new password, and the contract from `initial_state` to `next_state`.
+ */
+export interface CredentialRotation {
+  /** The blob to send in the transaction, holding the new stored hash. */
+  blob: Blob;
+  /** The current state of the rotation contract. */
+  initial_state: number[];
+  /** The state of the rotation contract once the rotation settles. */
+  next_state: number[];
+  /** The accounts of the contract once the rotation settles, for the next rotation. */
+  accounts: RotationAccount[];
+  /**
+   * Proves knowledge of the current password for the blob transaction.
+   *
+   * @param tx_hash - The blob transaction hash, as a hex string (with or without `0x`) or bytes
+   * @param blob_index - The index of the blob in the transaction
+   * @param tx_blob_count - Total number of blobs in the transaction
+   * @param telemetry - Logger and metrics hooks for this proof
+   */
+  prove(tx_hash: TxHashInput, blob_index: number, tx_blob_count: number, telemetry?: Telemetry): Promise<ProofTransaction>;
+}
+
+/**
+ * Prepares the rotation of an account's password in a single transaction.
+ * The state of the rotation circuit (`check-secret-rotation`) commits to the stored hash of each account
+ * (see rotation_state): its proof shows knowledge of the current password of the identity's account
+ * under the `initial_state`, and sets the `next_state` to the commitment with the new stored hash carried by the blob.
+ * The credential scheme can change along, e.g. to move a legacy account to PBKDF2.
+ *
+ * The check_secret contract is stateless and does not read this state: it keeps accepting the old password.
+ * Applications that rotate passwords must check the blob of a check_secret login against the account's
+ * stored hash in the rotation contract.
+ *
+ * @param identity - The user's identity string
+ * @param old_password - The current password
+ * @param new_password - The new password
+ * @param accounts - The current accounts of the contract, which include the identity's
+ * @param circuit - The compiled check-secret-rotation circuit or its Prover (defaults to the check-secret-rotation circuit)
+ * @param options - The credential schemes of the current and new passwords (default to the legacy SHA-256 scheme),
+ * and the contract name of the blob (defaults to "check_secret_rotation")
+ * @returns A Promise resolving to the blob and the proof builder of the rotation
+ */
+export const prepare_rotation = async (
+  identity: string,
+  old_password: string,
+  new_password: string,
+  accounts: RotationAccount[],
+  circuit: CircuitSource | Prover = rotationCircuit,
+  options: { old_scheme?: CredentialScheme; new_scheme?: CredentialScheme; contract_name?: string } = {}
+): Promise<CredentialRotation> => {
+  const contract_name = options.contract_name ?? ROTATION_CONTRACT_NAME;
+  const slot = accounts.findIndex((account) => account.identity == identity);
+  assert(slot >= 0, `No rotation account for ${identity}`, "INVALID_IDENTITY");
+  assert(accounts.filter((account) => account.identity == identity).length == 1, `Rotation account ${identity} is given twice`);
+
+  const old_secret = await derive_secret(old_password, options.old_scheme);
+  const old_hash = await storedHash(identity, old_secret);
+  assert(encodeToHex(storedHashBytes(accounts[slot])) == encodeToHex(old_hash), "wrong password");
+  const next_hash = (await build_blob(identity, new_password, options.new_scheme)).data;
+  const next_accounts = accounts.map((account, i) => (i == slot ? { identity, stored_hash: next_hash } : account));
+
+  const levels = await rotationTree(accounts);
+  const siblings = levels.slice(0, ROTATION_TREE_DEPTH).map((level, depth) => Array.from(level[(slot >> depth) ^ 1]));
+  const initial_state = Array.from(levels[ROTATION_TREE_DEPTH][0]);
+  const next_state = await rotation_state(next_accounts);
+
+  const prove = async (
+    tx_hash: TxHashInput,
+    blob_index: number,
+    tx_blob_count: number,
+    telemetry?: Telemetry
+  ): Promise<ProofTransaction> => {
+    const output: HyliOutput = {
+      initial_state,
+      next_state,
+      identity,
+      index: blob_index,
+      blobs: [{ index: blob_index, contract_name, data: next_hash }],
+      tx_blob_count,
+      tx_hash: parse_tx_hash(tx_hash),
+      success: true,
+    };
+
+    return await with_prover(
+      circuit,
+      async (prover) => {
+        const { abi } = await prover.compiledCircuit();
+        const inputs = { ...encode_circuit_output(abi, output), old_password: Array.from(old_secret), slot, siblings };
+        return {
+          contract_name,
+          program_id: await prover.programId(),
+          verifier: "noir",
+          proof: await prover.prove(inputs, telemetry),
+        };
+      },
+      { name: "check_secret_rotation", ...telemetry }
+    );
   };
+
+  return { blob: { contract_name, data: next_hash }, initial_state, next_state, accounts: next_accounts, prove };
+};
+
+const storedHash = async (identity: string, secret: Uint8Array): Promise<Uint8Array> => {
+  const id_prefix = new TextEncoder().encode(`${identity}:`);
+  return await sha256(new Uint8Array([...id_prefix, ...secret]));
+};
+
+const storedHashBytes = (account: RotationAccount): Uint8Array => {
+  const bytes = typeof account.stored_hash == "string" ? hexToBytes(account.stored_hash) : Uint8Array.from(account.stored_hash);
+  assert(bytes.length == 32, `Stored hash of ${account.identity} is ${bytes.length} bytes, expected 32`);
+  return bytes;
+};
+
+// The levels of the Merkle tree of the rotation accounts, from the leaves up to the root
+const rotationTree = async (accounts: RotationAccount[]): Promise<Uint8Array[][]> => {
+  const slots = 1 << ROTATION_TREE_DEPTH;
+  assert(accounts.length <= slots, `Got ${accounts.length} rotation accounts, the contract holds ${slots}`);
+  const leaves = await Promise.all(
+    accounts.map(async (account) => {
+      const identity_hash = await sha256(new TextEncoder().encode(account.identity));
+      return await sha256(new Uint8Array([...identity_hash, ...storedHashBytes(account)]));
+    })
+  );
+  const levels = [[...leaves, ...Array.from({ length: slots - leaves.length }, () => new Uint8Array(32))]];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const pairs = Array.from({ length: level.length / 2 }, (_, i) => new Uint8Array([...level[2 * i], ...level[2 * i + 1]]));
+    levels.push(await Promise.all(pairs.map(sha256)));
+  }
+  return levels;
 };
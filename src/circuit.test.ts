@@ -0,0 +1,68 @@
+import { expect, test } from "bun:test";
+import { readFile } from "node:fs/promises";
+import { check_jwt, check_secret, circuit } from "./lib";
+
+const path = new URL("../check-secret/target/check_secret.json", import.meta.url);
+const expected = { hash: "10871151069518277438", noir_version: "1.0.0-beta.18" };
+
+test("loads artifacts from paths, URLs and bytes", async () => {
+  const loaded = await circuit.load_circuit(path.pathname, expected);
+  expect(loaded.abi.parameters.map(({ name }) => name)).toContain("password");
+  expect(await circuit.load_circuit(path.pathname)).toBe(loaded);
+  expect(await circuit.load_circuit(path, expected)).toEqual(loaded);
+
+  const bytes = await readFile(path);
+  const version = "1.0.0-beta.18+99bb8b5cf33d7669adbdef096b12d80f30b4c0c9";
+  expect(await circuit.load_circuit(bytes, { ...expected, noir_version: version })).toEqual(loaded);
+
+  let fetches = 0;
+  const fetch = async () => {
+    fetches++;
+    return new Response(bytes);
+  };
+  await circuit.load_circuit("https://cdn.example.com/check_secret.json", { ...expected, fetch });
+  await circuit.load_circuit("https://cdn.example.com/check_secret.json", { ...expected, fetch });
+  expect(fetches).toBe(1);
+});
+
+test("rejects stale, tampered and missing artifacts", async () => {
+  const invalid = expect.objectContaining({ code: "INVALID_CIRCUIT" });
+  await expect(circuit.load_circuit(path.pathname, { hash: "1" })).rejects.toThrow(invalid);
+  await expect(circuit.load_circuit(path.pathname, { noir_version: "1.0.0-beta.11" })).rejects.toThrow(invalid);
+  await expect(circuit.load_circuit(path.pathname, { bytecode_sha256: "00".repeat(32) })).rejects.toThrow(invalid);
+  await expect(circuit.load_circuit(new TextEncoder().encode("{}"))).rejects.toThrow(invalid);
+
+  await expect(circuit.load_circuit("/nonexistent/circuit.json")).rejects.toThrow(expect.objectContaining({ code: "CIRCUIT_LOAD_FAILED" }));
+  const notFound = async () => new Response(null, { status: 404 });
+  await expect(circuit.load_circuit("https://cdn.example.com/missing.json", { fetch: notFound })).rejects.toThrow("HTTP 404");
+});
+
+test("imports lazy circuits once", async () => {
+  let imports = 0;
+  const lazy = circuit.lazy_circuit(() => {
+    imports++;
+    return import("../check-secret/target/check_secret.json");
+  }, expected);
+
+  expect(await lazy()).toBe(await lazy());
+  expect(imports).toBe(1);
+  await expect(circuit.lazy_circuit(() => import("../check-secret/target/check_secret.json"), { hash: "1" })()).rejects.toThrow(
+    expect.objectContaining({ code: "INVALID_CIRCUIT" })
+  );
+});
+
+test("rejects artifacts of a Noir older than noir_js deserializes", async () => {
+  const artifact = JSON.parse(await readFile(path, "utf8"));
+  const stale = { ...artifact, noir_version: "1.0.0-beta.11+fd3925aaaeb76c76319f44590d135498ef41ea6c" };
+  await expect(circuit.check_circuit(stale)).rejects.toThrow(`recompile it with Noir ${circuit.MIN_NOIR_VERSION} or later`);
+  const invalid = expect.objectContaining({ code: "INVALID_CIRCUIT" });
+  await expect(circuit.check_circuit({ ...artifact, noir_version: "0.36.0" })).rejects.toThrow(invalid);
+  expect(await circuit.check_circuit({ ...artifact, noir_version: "1.0.0" })).toBeDefined();
+  expect(await circuit.check_circuit({ ...artifact, noir_version: circuit.MIN_NOIR_VERSION })).toBeDefined();
+});
+
+test("pins the bundled circuits", async () => {
+  expect((await check_secret.create_prover().compiledCircuit()).abi.parameters.map(({ name }) => name)).toContain("password");
+  // check_jwt is a Noir 1.0.0-beta.11 artifact, rejected before noir_js fails to deserialize it
+  await expect(check_jwt.create_prover().compiledCircuit()).rejects.toThrow("which noir_js cannot deserialize");
+});
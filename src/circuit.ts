@@ -0,0 +1,204 @@
+import { CompiledCircuit } from "@noir-lang/types";
+import { encodeToHex, sha256, stringToBytes } from "./common";
+import { HyliNoirError } from "./errors";
+
+/**
+ * Loads a compiled circuit on demand, e.g. from `lazy_circuit`.
+ */
+export type CircuitLoader = () => Promise<CompiledCircuit>;
+
+/**
+ * A compiled circuit, or a loader resolving to one the first time it is needed.
+ */
+export type CircuitSource = CompiledCircuit | CircuitLoader;
+
+/**
+ * Where a compiled Nargo artifact is loaded from: a file path, an `http(s):` or `file:` URL,
+ * or the bytes of the JSON artifact.
+ */
+export type ArtifactLocation = string | URL | Uint8Array | ArrayBuffer;
+
+/**
+ * What a loaded artifact is checked against.
+ */
+export interface CircuitExpectations {
+  /** The `hash` of the Nargo artifact, which changes whenever the program changes. */
+  hash?: string;
+  /** The Noir version the artifact was compiled with, e.g. `1.0.0-beta.18`. Build metadata after `+` may be omitted. */
+  noir_version?: string;
+  /** The SHA-256 hash of the artifact's `bytecode` string, hex encoded, to detect a tampered artifact. */
+  bytecode_sha256?: string;
+}
+
+/**
+ * Options of `load_circuit`.
+ */
+export interface LoadCircuitOptions extends CircuitExpectations {
+  /** Fetch function for `http(s):` URLs, defaults to the global `fetch`. */
+  fetch?: (url: string) => Promise<Pick<Response, "ok" | "status" | "json">>;
+}
+
+/**
+ * The oldest Noir version whose artifacts the supported noir_js (the peer dependency) deserializes.
+ * Artifacts compiled with an older Noir are rejected by `check_circuit` and must be recompiled.
+ */
+export const MIN_NOIR_VERSION = "1.0.0-beta.14";
+
+// Parsed artifacts by location, shared by every load of the same file or URL
+const artifacts = new Map<string, Promise<CompiledCircuit>>();
+
+/**
+ * Loads a compiled Nargo artifact and checks it against the expected hash and Noir version.
+ * Artifacts loaded from a path or URL are parsed once and cached, and checked on every load.
+ *
+ * @param location - A file path, an `http(s):` or `file:` URL, or the bytes of the artifact
+ * @param options - The expected hash and Noir version of the artifact, and the fetch function
+ * @returns A Promise resolving to the compiled circuit
+ * @throws HyliNoirError with code `CIRCUIT_LOAD_FAILED` if the artifact cannot be read, or `INVALID_CIRCUIT` if it
+ * is malformed or does not match the expectations
+ */
+export const load_circuit = async (location: ArtifactLocation, options: LoadCircuitOptions = {}): Promise<CompiledCircuit> => {
+  if (location instanceof Uint8Array || location instanceof ArrayBuffer) {
+    const circuit = parseArtifact(new TextDecoder().decode(location), "artifact bytes");
+    return await check_circuit(circuit, options);
+  }
+
+  const key = locationKey(location);
+  let artifact = artifacts.get(key);
+  if (!artifact) {
+    artifact = readArtifact(key, options);
+    artifacts.set(key, artifact);
+    // Do not cache a failure, the next load will try again
+    artifact.catch(() => artifacts.delete(key));
+  }
+  return await check_circuit(await artifact, options);
+};
+
+/**
+ * Creates a loader importing a circuit the first time it is needed, and checking it once.
+ * Used with a dynamic import, the circuit is split out of the bundle and only downloaded when proving:
+ * `lazy_circuit(() => import("./target/my_circuit.json"), { hash })`.
+ *
+ * @param load - Resolves to the artifact, or to a module whose default export is the artifact
+ * @param expected - The expected hash and Noir version of the artifact
+ * @returns A loader resolving to the compiled circuit
+ */
+export const lazy_circuit = (load: () => Promise<unknown>, expected: CircuitExpectations = {}): CircuitLoader => {
+  let circuit: Promise<CompiledCircuit> | undefined;
+  return () => {
+    if (!circuit) {
+      circuit = load().then((module) => check_circuit(((module as { default?: unknown }).default ?? module) as CompiledCircuit, expected));
+      circuit.catch(() => (circuit = undefined));
+    }
+    return circuit;
+  };
+};
+
+/**
+ * Creates the loader of a circuit bundled with the library, as `lazy_circuit` does.
+ * A bundled artifact must pin its hash, Noir version and bytecode hash, so that a stale or tampered copy
+ * in the published package is detected when it is loaded.
+ *
+ * @param load - Resolves to the artifact, or to a module whose default export is the artifact
+ * @param expected - The hash, Noir version and bytecode hash of the artifact
+ * @returns A loader resolving to the compiled circuit
+ */
+export const bundled_circuit = (load: () => Promise<unknown>, expected: Required<CircuitExpectations>): CircuitLoader => {
+  return lazy_circuit(load, expected);
+};
+
+/**
+ * Resolves a circuit source to the compiled circuit.
+ *
+ * @param source - A compiled circuit or a loader
+ * @returns A Promise resolving to the compiled circuit
+ */
+export const resolve_circuit = async (source: CircuitSource): Promise<CompiledCircuit> => {
+  return typeof source == "function" ? await source() : source;
+};
+
+/**
+ * Checks that a compiled circuit is a Nargo artifact matching the expectations, compiled with a Noir version
+ * no older than MIN_NOIR_VERSION.
+ *
+ * @param circuit - The compiled circuit
+ * @param expected - The expected hash, Noir version and bytecode hash
+ * @returns A Promise resolving to the circuit
+ * @throws HyliNoirError with code `INVALID_CIRCUIT` if it does not match
+ */
+export const check_circuit = async (circuit: CompiledCircuit, expected: CircuitExpectations = {}): Promise<CompiledCircuit> => {
+  if (typeof circuit?.bytecode != "string" || !Array.isArray(circuit.abi?.parameters)) {
+    throw new HyliNoirError("INVALID_CIRCUIT", "Circuit artifact has no bytecode or ABI");
+  }
+
+  const { hash, noir_version } = circuit as CompiledCircuit & { hash?: unknown; noir_version?: string };
+  if (expected.hash != undefined && String(hash) != expected.hash) {
+    throw new HyliNoirError("INVALID_CIRCUIT", `Circuit hash is ${hash}, expected ${expected.hash}`);
+  }
+  if (expected.noir_version != undefined && !sameVersion(noir_version, expected.noir_version)) {
+    throw new HyliNoirError("INVALID_CIRCUIT", `Circuit was compiled with Noir ${noir_version}, expected ${expected.noir_version}`);
+  }
+  if (noir_version != undefined && compareVersions(noir_version, MIN_NOIR_VERSION) < 0) {
+    const message = `Circuit was compiled with Noir ${noir_version}, which noir_js cannot deserialize`;
+    throw new HyliNoirError("INVALID_CIRCUIT", `${message}: recompile it with Noir ${MIN_NOIR_VERSION} or later`);
+  }
+  if (expected.bytecode_sha256 != undefined) {
+    const digest = encodeToHex(await sha256(stringToBytes(circuit.bytecode)));
+    if (digest != expected.bytecode_sha256.toLowerCase()) {
+      throw new HyliNoirError("INVALID_CIRCUIT", `Circuit bytecode hash is ${digest}, expected ${expected.bytecode_sha256}`);
+    }
+  }
+  return circuit;
+};
+
+const locationKey = (location: string | URL): string => {
+  if (location instanceof URL) {
+    return location.href;
+  }
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(location) ? location : `path:${location}`;
+};
+
+const readArtifact = async (key: string, options: LoadCircuitOptions): Promise<CompiledCircuit> => {
+  let artifact: unknown;
+  try {
+    if (key.startsWith("path:") || key.startsWith("file:")) {
+      const { readFile } = await import("node:fs/promises");
+      artifact = await readFile(key.startsWith("path:") ? key.slice(5) : new URL(key), "utf8");
+    } else {
+      const response = await (options.fetch ?? fetch)(key);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      artifact = await response.json();
+    }
+  } catch (error) {
+    throw new HyliNoirError("CIRCUIT_LOAD_FAILED", `Failed to load circuit from ${key}: ${(error as Error).message}`, error);
+  }
+  return parseArtifact(artifact, key);
+};
+
+const parseArtifact = (artifact: unknown, origin: string): CompiledCircuit => {
+  if (typeof artifact != "string") {
+    return artifact as CompiledCircuit;
+  }
+  try {
+    return JSON.parse(artifact);
+  } catch (error) {
+    throw new HyliNoirError("INVALID_CIRCUIT", `Circuit artifact from ${origin} is not valid JSON`, error);
+  }
+};
+
+const sameVersion = (actual: string | undefined, expected: string): boolean => {
+  return actual == expected || actual?.split("+")[0] == expected;
+};
+
+// Orders versions of the form `1.0.0` and `1.0.0-beta.18`, ignoring build metadata; a release follows its pre-releases
+const compareVersions = (a: string, b: string): number => {
+  const parse = (version: string) => {
+    const [release, prerelease] = version.split("+")[0].split("-");
+    const pre = prerelease == undefined ? Number.MAX_SAFE_INTEGER : Number(prerelease.match(/\d+$/)?.[0] ?? 0);
+    return [...release.split(".").map(Number), pre];
+  };
+  const [x, y] = [parse(a), parse(b)];
+  return x.map((part, i) => part - y[i]).find((part) => part != 0) ?? 0;
+};
@@ -1,8 +1,10 @@
+import { InputError, InputErrorCode } from "./errors";
+
 // ---- Utility functions ----
 
-export const assert = (condition: boolean, message: string): void => {
+export const assert = (condition: boolean, message: string, code: InputErrorCode = "INVALID_INPUT"): void => {
   if (!condition) {
-    throw new Error(message);
+    throw new InputError(code, message);
   }
 };
 
@@ -22,6 +24,15 @@ export const encodeToHex = (data: Uint8Array): string => {
     .join("");
 };
 
+export const hexToBytes = (hex: string): Uint8Array => {
+  assert(hex.length % 2 == 0 && /^[0-9a-fA-F]*$/.test(hex), `Invalid hex string: ${hex}`);
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
 export function flattenFieldsAsArray(fields: string[]): Uint8Array {
   const flattenedPublicInputs = fields.map(hexToUint8Array);
   return flattenUint8Arrays(flattenedPublicInputs);
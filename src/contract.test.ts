@@ -0,0 +1,60 @@
+import { expect, test } from "bun:test";
+import { CompiledCircuit } from "@noir-lang/noir_js";
+import secretCircuit from "../check-secret/target/check_secret.json";
+import { check_secret, contract } from "./lib";
+import { WitnessProver } from "./testing";
+
+const tx_hash = "241cc3c3c04120a6a55dbc852b1fa3f5f84589b9d56671fc503524435cd2b2d4";
+
+test("defines a contract from its blob and private inputs", async () => {
+  const secret = await check_secret.hash_password("hunter2");
+  const defined = contract.define_noir_contract<{ identity: string; secret: Uint8Array }>({
+    name: "my_secret",
+    circuit: secretCircuit as CompiledCircuit,
+    encodeBlob: async ({ identity }) => (await check_secret.build_blob(identity, "hunter2")).data,
+    buildPrivateInputs: ({ secret }) => ({ password: Array.from(secret) }),
+  });
+
+  const blob = await defined.buildBlob({ identity: "bob@wallet", secret });
+  expect(blob).toEqual({ ...(await check_secret.build_blob("bob@wallet", "hunter2")), contract_name: "my_secret" });
+
+  const local = new WitnessProver(secretCircuit as CompiledCircuit);
+  try {
+    const proofTx = await defined.prove(
+      { identity: "bob@wallet", secret },
+      { tx_hash, blob_index: 1, tx_blob_count: 2 },
+      { circuit: local }
+    );
+    expect(proofTx).toEqual({ contract_name: "my_secret", program_id: [9], verifier: "noir", proof: [1, 2, 3] });
+    expect(local.executed[0]).toMatchObject({ identity_len: 10, blob_index: 1, blob_contract_name_len: 9, tx_blob_count: 2 });
+  } finally {
+    await local.destroy();
+  }
+});
+
+test("expresses check_secret as a contract", async () => {
+  const local = new WitnessProver(secretCircuit as CompiledCircuit);
+  try {
+    const proofTx = await check_secret.build_proof_transaction("bob@wallet", "hunter2", tx_hash, 0, 1, local);
+    expect(proofTx.contract_name).toBe("check_secret");
+    expect(local.executed[0].password).toEqual(Array.from(await check_secret.hash_password("hunter2")));
+  } finally {
+    await local.destroy();
+  }
+});
+
+test("simulates check_secret without proving", async () => {
+  const stored_hash = await check_secret.identity_hash("bob@wallet", "hunter2");
+
+  const success = await check_secret.simulate("bob@wallet", "hunter2", stored_hash);
+  expect(success.success).toBe(true);
+  expect(success).toMatchObject({ output: { identity: "bob@wallet", blobs: [{ index: 0, contract_name: "check_secret" }] } });
+
+  expect(await check_secret.simulate("bob@wallet", "hunter3", stored_hash)).toEqual({
+    success: false,
+    code: "WITNESS_EXECUTION_FAILED",
+    reason: "wrong password",
+    assertion: "Cannot satisfy constraint",
+  });
+  expect(await check_secret.simulate("bob", "hunter2", stored_hash)).toMatchObject({ success: false, code: "INVALID_IDENTITY" });
+});
@@ -0,0 +1,226 @@
+import { InputMap } from "@noir-lang/types";
+import { Blob, NodeApiHttpClient, ProofTransaction } from "hyli";
+import { CircuitSource } from "./circuit";
+import { ErrorCode, InputError, JwtError, WitnessExecutionError } from "./errors";
+import { encode_circuit_output, HyliOutput, ZERO_STATE_COMMITMENT } from "./hyli_output";
+import { register_contract, RegistrationResult, StateTransition } from "./proof";
+import { circuit_program_id, Prover, ProverOptions, with_prover } from "./prover";
+import { measure, Telemetry } from "./telemetry";
+import { parse_tx_hash, TxHashInput } from "./tx_hash";
+import { verify_proof } from "./verify";
+
+/**
+ * What makes a Noir contract: its circuit, the data of its blob and the private inputs of its proofs.
+ * `P` is the type of the parameters a proof is built from, which carry at least the identity.
+ */
+export interface NoirContractDefinition<P extends { identity: string }> {
+  /** Name of the contract on Hyli, also the contract name of its blobs. */
+  name: string;
+  /** The default circuit of the contract, compiled or loaded on first use. */
+  circuit: CircuitSource;
+  /** Encodes the data of the contract's blob. */
+  encodeBlob: (params: P) => number[] | Uint8Array | Promise<number[] | Uint8Array>;
+  /** Builds the private inputs of the circuit, given the HyliOutput of the proof. */
+  buildPrivateInputs: (params: P, output: HyliOutput) => InputMap | Promise<InputMap>;
+  /** Commitment of the initial state of the contract (defaults to the zero state of stateless contracts). */
+  state_commitment?: number[];
+  /**
+   * Reasons reported by `simulate` for failed circuit assertions, keyed by assertion message or by
+   * a snippet of the failing Noir source for assertions without message, e.g. `input_hash == blob`.
+   */
+  failure_reasons?: Record<string, string>;
+}
+
+/**
+ * The transaction a contract's blob is proven for.
+ */
+export interface ContractTransaction {
+  /** The blob transaction hash, as a hex string (with or without `0x`) or bytes. */
+  tx_hash: TxHashInput;
+  /** The index of the contract's blob in the transaction. */
+  blob_index: number;
+  /** Total number of blobs in the transaction. */
+  tx_blob_count: number;
+  /** The data of the contract's blob in the transaction (defaults to the blob built from the parameters). */
+  blob_data?: number[];
+  /** The state commitment before the transaction (defaults to the contract's initial state commitment). */
+  initial_state?: number[];
+  /** The state commitment after the transaction, or a function computing it (defaults to the initial state). */
+  next_state?: number[] | StateTransition;
+}
+
+/**
+ * The result of a dry run of a contract's circuit.
+ * A failure carries the code of the error, e.g. `WITNESS_EXECUTION_FAILED` when the circuit rejects
+ * its inputs, and a reason mapped from the failed assertion when the contract defines one.
+ */
+export type SimulationResult =
+  | { success: true; output: HyliOutput }
+  | { success: false; code: ErrorCode; reason: string; assertion?: string };
+
+// Transaction of a dry run, whose hash and blob position are not known yet
+const SIMULATED_TRANSACTION: ContractTransaction = { tx_hash: "00".repeat(32), blob_index: 0, tx_blob_count: 1 };
+
+/**
+ * Options of `NoirContract.prove` and `NoirContract.simulate`.
+ */
+export interface ContractProofOptions {
+  /** A compiled circuit or a Prover to use instead of the contract's circuit. */
+  circuit?: CircuitSource | Prover;
+  /** Logger and metrics hooks for this proof (defaults to the Prover's, if any). */
+  telemetry?: Telemetry;
+}
+
+/**
+ * Options of `NoirContract.register`.
+ */
+export interface RegistrationOptions {
+  /** A compiled circuit or a Prover to use instead of the contract's circuit. */
+  circuit?: CircuitSource | Prover;
+  /** Name to register the contract under (defaults to the contract's name). */
+  contract_name?: string;
+  /** Commitment of the initial state (defaults to the contract's initial state commitment). */
+  state_commitment?: number[];
+}
+
+/**
+ * A Noir contract, as returned by `define_noir_contract`.
+ * Methods taking a `circuit` use the contract's circuit by default, and accept a Prover to reuse it across calls.
+ */
+export interface NoirContract<P extends { identity: string }> {
+  readonly name: string;
+  readonly circuit: CircuitSource;
+  /** Builds the blob of the contract. */
+  buildBlob(params: P): Promise<Blob>;
+  /** Builds a proof transaction for the contract's blob in a transaction. */
+  prove(params: P, tx: ContractTransaction, options?: ContractProofOptions): Promise<ProofTransaction>;
+  /**
+   * Runs the circuit without proving, to check that the parameters satisfy it in milliseconds.
+   * The transaction defaults to a single blob at index 0 of a zero hash.
+   */
+  simulate(params: P, tx?: Partial<ContractTransaction>, options?: ContractProofOptions): Promise<SimulationResult>;
+  /** Registers the contract with the node if it is not already registered, and checks the program_id of an existing one. */
+  register(node: NodeApiHttpClient, options?: RegistrationOptions): Promise<RegistrationResult>;
+  /** Returns the program_id of the contract, as registered on Hyli, precomputed for the bundled circuits. */
+  programId(circuit?: CircuitSource | Prover): Promise<number[]>;
+  /** Verifies a proof transaction of the contract locally. */
+  verify(proofTx: ProofTransaction, circuit?: CircuitSource | Prover): Promise<boolean>;
+  /** Creates a Prover for the contract's circuit, to be reused across proofs. */
+  createProver(options?: ProverOptions): Prover;
+}
+
+/**
+ * Defines a Noir contract from its circuit, blob encoding and private inputs.
+ * The public inputs are derived from the circuit ABI: circuits taking the SDK's `HyliOutput`
+ * struct and flattened version 1 circuits are both supported.
+ *
+ * @param definition - The contract definition
+ * @returns The contract, to build blobs and proofs and to register it
+ */
+export const define_noir_contract = <P extends { identity: string }>(definition: NoirContractDefinition<P>): NoirContract<P> => {
+  const { name } = definition;
+  const initial_state = definition.state_commitment ?? [...ZERO_STATE_COMMITMENT];
+
+  const buildBlob = async (params: P): Promise<Blob> => {
+    return { contract_name: name, data: Array.from(await definition.encodeBlob(params)) };
+  };
+
+  const buildOutput = async (params: P, tx: ContractTransaction): Promise<HyliOutput> => {
+    const tx_hash = parse_tx_hash(tx.tx_hash);
+    const data = tx.blob_data ?? (await buildBlob(params)).data;
+    const state = tx.initial_state ?? initial_state;
+    const next_state = typeof tx.next_state == "function" ? await tx.next_state(state) : tx.next_state;
+
+    return {
+      initial_state: state,
+      next_state: next_state ?? state,
+      identity: params.identity,
+      index: tx.blob_index,
+      blobs: [{ index: tx.blob_index, contract_name: name, data }],
+      tx_blob_count: tx.tx_blob_count,
+      tx_hash,
+      success: true,
+    };
+  };
+
+  const buildInputs = async (prover: Prover, params: P, output: HyliOutput, telemetry?: Telemetry): Promise<InputMap> => {
+    const private_inputs = await measure(telemetry ?? prover.telemetry, prover.name, "generate_inputs", async () =>
+      definition.buildPrivateInputs(params, output)
+    );
+    const { abi } = await prover.compiledCircuit();
+    return { ...encode_circuit_output(abi, output), ...private_inputs };
+  };
+
+  const prove = async (params: P, tx: ContractTransaction, options: ContractProofOptions = {}): Promise<ProofTransaction> => {
+    const output = await buildOutput(params, tx);
+
+    return await with_prover(
+      options.circuit ?? definition.circuit,
+      async (prover) => {
+        const inputs = await buildInputs(prover, params, output, options.telemetry);
+        return {
+          contract_name: name,
+          program_id: await prover.programId(),
+          verifier: "noir",
+          proof: await prover.prove(inputs, options.telemetry),
+        };
+      },
+      { name, ...options.telemetry }
+    );
+  };
+
+  const simulate = async (
+    params: P,
+    tx: Partial<ContractTransaction> = {},
+    options: ContractProofOptions = {}
+  ): Promise<SimulationResult> => {
+    try {
+      const output = await buildOutput(params, { ...SIMULATED_TRANSACTION, ...tx });
+      await with_prover(
+        options.circuit ?? definition.circuit,
+        async (prover) => prover.execute(await buildInputs(prover, params, output, options.telemetry), options.telemetry),
+        { name, ...options.telemetry }
+      );
+      return { success: true, output };
+    } catch (error) {
+      if (error instanceof WitnessExecutionError) {
+        const reason = failureReason(definition.failure_reasons ?? {}, error);
+        return { success: false, code: error.code, reason: reason ?? error.assertion, assertion: error.assertion };
+      }
+      // Inputs that cannot be encoded fail the same way, other errors are not about the parameters
+      if (error instanceof InputError || error instanceof JwtError) {
+        return { success: false, code: error.code, reason: error.message };
+      }
+      throw error;
+    }
+  };
+
+  return {
+    name,
+    circuit: definition.circuit,
+    buildBlob,
+    prove,
+    simulate,
+    register: (node, { contract_name = name, circuit = definition.circuit, state_commitment = initial_state } = {}) =>
+      register_contract(node, contract_name, circuit, state_commitment),
+    programId: (circuit = definition.circuit) => circuit_program_id(circuit, { name }),
+    verify: (proofTx, circuit = definition.circuit) => verify_proof(proofTx, circuit),
+    createProver: (options = {}) => new Prover(definition.circuit, { name, ...options }),
+  };
+};
+
+/**
+ * Returns the program_id of a contract, as registered on Hyli, e.g. to route or check its transactions.
+ * The program_ids of the bundled circuits are precomputed, so no backend is loaded for them.
+ *
+ * @param target - A contract, which uses its own circuit, or a compiled circuit, a circuit loader or a Prover
+ * @returns A Promise resolving to the program_id
+ */
+export const program_id = async (target: NoirContract<{ identity: string }> | CircuitSource | Prover): Promise<number[]> => {
+  return "buildBlob" in target ? await target.programId() : await circuit_program_id(target);
+};
+
+const failureReason = (reasons: Record<string, string>, error: WitnessExecutionError): string | undefined => {
+  const match = Object.keys(reasons).find((key) => error.assertion == key || error.call_stack.some((frame) => frame.includes(key)));
+  return match == undefined ? undefined : reasons[match];
+};
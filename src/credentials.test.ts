@@ -0,0 +1,119 @@
+import { expect, test } from "bun:test";
+import { CompiledCircuit } from "@noir-lang/noir_js";
+import { readFile } from "node:fs/promises";
+import rotationCircuit from "../check-secret-rotation/target/check_secret_rotation.json";
+import { check_secret, credentials, noir_utils } from "./lib";
+import { stand_in_node, WitnessProver } from "./testing";
+
+test("derives the legacy and PBKDF2 secrets", async () => {
+  expect(await credentials.derive_secret("mypassword123")).toEqual(await noir_utils.sha256(noir_utils.stringToBytes("mypassword123")));
+
+  // PBKDF2-HMAC-SHA256 test vector, P = "password", S = "salt", c = 1
+  const scheme = { version: 2, kdf: "pbkdf2-sha256", iterations: 1, salt: "73616c74" } as const;
+  expect(noir_utils.encodeToHex(await credentials.derive_secret("password", scheme))).toBe(
+    "120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b"
+  );
+});
+
+test("salts the stored hash of new accounts", async () => {
+  const scheme = credentials.new_credential_scheme(1000);
+  const other = credentials.new_credential_scheme(1000);
+  expect(scheme.version == 2 && scheme.salt).toHaveLength(32);
+
+  const blob = await check_secret.build_blob("bob@wallet", "hunter2", scheme);
+  expect(blob.data).not.toEqual((await check_secret.build_blob("bob@wallet", "hunter2")).data);
+  expect(blob.data).not.toEqual((await check_secret.build_blob("bob@wallet", "hunter2", other)).data);
+  expect(noir_utils.encodeToHex(Uint8Array.from(blob.data))).toBe(await check_secret.identity_hash("bob@wallet", "hunter2", scheme));
+});
+
+test("formats and parses schemes", () => {
+  const scheme = credentials.new_credential_scheme();
+  const formatted = credentials.format_credential_scheme(scheme);
+  expect(formatted).toMatch(/^pbkdf2-sha256\$i=600000\$[0-9a-f]{32}$/);
+  expect(credentials.parse_credential_scheme(formatted)).toEqual(scheme);
+  expect(credentials.parse_credential_scheme("sha256")).toEqual(credentials.LEGACY_SCHEME);
+  expect(() => credentials.parse_credential_scheme("md5")).toThrow(expect.objectContaining({ code: "INVALID_INPUT" }));
+});
+
+const accounts = async () => [
+  { identity: "alice@wallet", stored_hash: await check_secret.identity_hash("alice@wallet", "swordfish") },
+  { identity: "bob@wallet", stored_hash: await check_secret.identity_hash("bob@wallet", "hunter2") },
+];
+
+test("ships the rotation circuit compiled from its source", async () => {
+  const source = await readFile(new URL("../check-secret-rotation/src/main.nr", import.meta.url), "utf8");
+  const files = Object.values(rotationCircuit.file_map).filter(({ path }) => path.endsWith("check-secret-rotation/src/main.nr"));
+  expect(files.map(({ source }) => source)).toEqual([source]);
+  expect(Object.values(rotationCircuit.file_map).some(({ path }) => path.endsWith("sha256/sha256.nr"))).toBe(true);
+
+  const parameters = rotationCircuit.abi.parameters.map(({ name, visibility }) => [name, visibility]);
+  expect(parameters).toEqual([
+    ["output", "public"],
+    ["old_password", "private"],
+    ["slot", "private"],
+    ["siblings", "private"],
+  ]);
+});
+
+test("prepares the rotation of a legacy account to PBKDF2", async () => {
+  const new_scheme = credentials.new_credential_scheme(1000);
+  const rotation = await check_secret.prepare_rotation("bob@wallet", "hunter2", "correct horse", await accounts(), undefined, {
+    new_scheme,
+  });
+  const next_hash = (await check_secret.build_blob("bob@wallet", "correct horse", new_scheme)).data;
+
+  expect(rotation.initial_state).toEqual(await check_secret.rotation_state(await accounts()));
+  expect(rotation.accounts).toEqual([(await accounts())[0], { identity: "bob@wallet", stored_hash: next_hash }]);
+  expect(rotation.next_state).toEqual(await check_secret.rotation_state(rotation.accounts));
+  expect(rotation.blob).toEqual({ contract_name: "check_secret_rotation", data: next_hash });
+});
+
+test("keys the rotation state by identity", async () => {
+  const [alice, bob] = await accounts();
+  expect(await check_secret.rotation_state([alice, bob])).not.toEqual(await check_secret.rotation_state([bob, alice]));
+  expect(await check_secret.rotation_state([alice, { ...bob, identity: "carol@wallet" }])).not.toEqual(
+    await check_secret.rotation_state([alice, bob])
+  );
+
+  const unknown = check_secret.prepare_rotation("carol@wallet", "hunter2", "correct horse", [alice, bob]);
+  await expect(unknown).rejects.toMatchObject({ code: "INVALID_IDENTITY" });
+  const wrong = check_secret.prepare_rotation("bob@wallet", "swordfish", "correct horse", [alice, bob]);
+  await expect(wrong).rejects.toMatchObject({ code: "INVALID_INPUT", message: "wrong password" });
+});
+
+test("executes the rotation circuit with the current password only", async () => {
+  const prover = new WitnessProver(rotationCircuit as CompiledCircuit);
+  const rotation = await check_secret.prepare_rotation("bob@wallet", "hunter2", "correct horse", await accounts(), prover);
+  const tx_hash = "ab".repeat(32);
+
+  const proofTx = await rotation.prove(tx_hash, 1, 2);
+  expect(proofTx).toEqual({ contract_name: "check_secret_rotation", program_id: [9], verifier: "noir", proof: [1, 2, 3] });
+  expect(prover.executed).toHaveLength(1);
+
+  // Another password does not match the initial state
+  const inputs = { ...prover.executed[0], old_password: Array.from(await credentials.derive_secret("letmein")) };
+  const error = await prover.execute(inputs).catch((error) => error);
+  expect(error).toMatchObject({ code: "WITNESS_EXECUTION_FAILED" });
+  expect(error.assertion).toContain("wrong password");
+
+  // Nor does the password of another account, which the proof cannot rotate
+  const alice = await check_secret.prepare_rotation("alice@wallet", "swordfish", "correct horse", await accounts(), prover);
+  await alice.prove(tx_hash, 1, 2);
+  const stolen = { ...prover.executed[1], slot: 1 };
+  expect((await prover.execute(stolen).catch((error) => error)).assertion).toContain("wrong password");
+});
+
+test("registers the rotation contract with the state of its accounts", async () => {
+  const { node, requests } = stand_in_node({
+    getContract: [new Error("Getting Contract: 404 Not Found")],
+    registerContract: ["ab".repeat(32)],
+  });
+  const prover = new WitnessProver(rotationCircuit as CompiledCircuit);
+
+  expect(await check_secret.register_rotation_contract(node, await accounts(), prover)).toMatchObject({
+    status: "registered",
+    contract_name: "check_secret_rotation",
+  });
+  const state_commitment = await check_secret.rotation_state(await accounts());
+  expect(requests[1].args).toEqual([{ verifier: "noir", program_id: [9], state_commitment, contract_name: "check_secret_rotation" }]);
+});
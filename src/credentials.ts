@@ -0,0 +1,83 @@
+import { assert, encodeToHex, hexToBytes, sha256, stringToBytes } from "./common";
+
+/**
+ * How the 32-byte `password` input of check_secret is derived from the user's password.
+ * - version 1: unsalted SHA-256 of the password, kept for existing accounts
+ * - version 2: PBKDF2-HMAC-SHA256 with a per-account salt and a configurable iteration count
+ *
+ * The scheme is public and must be stored next to the account's stored hash, e.g. with
+ * `format_credential_scheme`, as it is needed again to log in.
+ */
+export type CredentialScheme = { version: 1; kdf: "sha256" } | { version: 2; kdf: "pbkdf2-sha256"; iterations: number; salt: string };
+
+/**
+ * The original scheme, an unsalted SHA-256 of the password.
+ */
+export const LEGACY_SCHEME: CredentialScheme = { version: 1, kdf: "sha256" };
+
+/**
+ * Default PBKDF2 iteration count of new credentials.
+ */
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Creates a salted PBKDF2 scheme for a new account.
+ *
+ * @param iterations - The PBKDF2 iteration count
+ * @returns A scheme with a fresh random 16-byte salt
+ */
+export const new_credential_scheme = (iterations: number = DEFAULT_PBKDF2_ITERATIONS): CredentialScheme => {
+  assert(Number.isSafeInteger(iterations) && iterations > 0, `PBKDF2 iteration count ${iterations} is not a positive integer`);
+  return { version: 2, kdf: "pbkdf2-sha256", iterations, salt: encodeToHex(crypto.getRandomValues(new Uint8Array(16))) };
+};
+
+/**
+ * Derives the 32-byte secret fed to the check_secret circuit as `password`.
+ *
+ * @param password - The user's password string
+ * @param scheme - The credential scheme of the account
+ * @returns A Promise resolving to the 32-byte secret
+ */
+export const derive_secret = async (password: string, scheme: CredentialScheme = LEGACY_SCHEME): Promise<Uint8Array> => {
+  if (scheme.version == 1) {
+    return await sha256(stringToBytes(password));
+  }
+
+  assert(scheme.kdf == "pbkdf2-sha256", `Unsupported credential KDF ${scheme.kdf}`);
+  assert(Number.isSafeInteger(scheme.iterations) && scheme.iterations > 0, `PBKDF2 iteration count ${scheme.iterations} is not a positive integer`);
+  // @ts-expect-error
+  const key = await crypto.subtle.importKey("raw", stringToBytes(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    // @ts-expect-error
+    { name: "PBKDF2", hash: "SHA-256", salt: hexToBytes(scheme.salt), iterations: scheme.iterations },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+/**
+ * Formats a scheme as a compact string, e.g. `pbkdf2-sha256$i=600000$<salt hex>`.
+ *
+ * @param scheme - The credential scheme
+ * @returns The string to store next to the account's stored hash
+ */
+export const format_credential_scheme = (scheme: CredentialScheme): string => {
+  return scheme.version == 1 ? scheme.kdf : `${scheme.kdf}$i=${scheme.iterations}$${scheme.salt}`;
+};
+
+/**
+ * Parses a scheme formatted with `format_credential_scheme`.
+ *
+ * @param value - The stored string
+ * @returns The credential scheme
+ */
+export const parse_credential_scheme = (value: string): CredentialScheme => {
+  if (value == "sha256") {
+    return LEGACY_SCHEME;
+  }
+
+  const match = /^pbkdf2-sha256\$i=(\d+)\$([0-9a-f]+)$/.exec(value);
+  assert(match != null, `Invalid credential scheme ${value}`);
+  return { version: 2, kdf: "pbkdf2-sha256", iterations: parseInt(match![1], 10), salt: match![2] };
+};
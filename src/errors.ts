@@ -0,0 +1,180 @@
+// ---- Errors thrown by the library ----
+
+/**
+ * Machine-readable codes of the library's errors.
+ * - `INVALID_INPUT`: an argument is malformed or out of the circuit's bounds
+ * - `BLOB_SIZE_MISMATCH`: a blob does not have the size the circuit expects
+ * - `BLOB_MISMATCH`: a blob is not the one of the transaction, or not one of the executed contract
+ * - `INVALID_TX_HASH`: the transaction hash is not a valid 32-byte hex hash
+ * - `INVALID_IDENTITY`: the identity is not of the form `name@contract` or is too long for the circuit
+ * - `ABI_MISMATCH`: the circuit inputs do not match the circuit ABI
+ * - `MISSING_JWT_INPUTS`: the JWT or its public key was not provided
+ * - `MISSING_JWT_CLAIMS`: the JWT lacks the email, nonce or kid claims
+ * - `UNKNOWN_KID`: no public key matches the kid of the JWT
+ * - `JWKS_FETCH_FAILED`: the JWK set could not be fetched or is malformed
+ * - `MALFORMED_JWT`: the JWT cannot be decoded
+ * - `UNSUPPORTED_ALGORITHM`: the JWT is not signed with RS256
+ * - `INVALID_SIGNATURE`: the JWT signature does not match its public key
+ * - `TOKEN_EXPIRED`: the JWT is past its `exp`
+ * - `TOKEN_NOT_YET_VALID`: the JWT is before its `nbf` or `iat`
+ * - `INVALID_ISSUER`: the JWT `iss` is not accepted
+ * - `INVALID_AUDIENCE`: the JWT `aud` is not accepted
+ * - `EMAIL_NOT_VERIFIED`: the JWT email is not verified
+ * - `WITNESS_EXECUTION_FAILED`: the circuit rejected its inputs
+ * - `PROVING_FAILED`: the backend failed to generate the proof
+ * - `PROVER_DESTROYED`: the Prover was used after `destroy()`
+ * - `WORKER_FAILED`: the prover worker failed or exited during the call, the next call starts a new one
+ * - `CIRCUIT_LOAD_FAILED`: a circuit artifact could not be read or fetched
+ * - `INVALID_CIRCUIT`: a circuit artifact is malformed or does not match its expected hash or Noir version
+ * - `NODE_REQUEST_FAILED`: a request to the Hyli node failed
+ */
+export type ErrorCode =
+  | "INVALID_INPUT"
+  | "BLOB_SIZE_MISMATCH"
+  | "BLOB_MISMATCH"
+  | "INVALID_TX_HASH"
+  | "INVALID_IDENTITY"
+  | "ABI_MISMATCH"
+  | "MISSING_JWT_INPUTS"
+  | "MISSING_JWT_CLAIMS"
+  | "UNKNOWN_KID"
+  | "JWKS_FETCH_FAILED"
+  | "MALFORMED_JWT"
+  | "UNSUPPORTED_ALGORITHM"
+  | "INVALID_SIGNATURE"
+  | "TOKEN_EXPIRED"
+  | "TOKEN_NOT_YET_VALID"
+  | "INVALID_ISSUER"
+  | "INVALID_AUDIENCE"
+  | "EMAIL_NOT_VERIFIED"
+  | "WITNESS_EXECUTION_FAILED"
+  | "PROVING_FAILED"
+  | "PROVER_DESTROYED"
+  | "WORKER_FAILED"
+  | "CIRCUIT_LOAD_FAILED"
+  | "INVALID_CIRCUIT"
+  | "NODE_REQUEST_FAILED";
+
+/**
+ * Base class of every error thrown by the library, carrying a stable `code`.
+ */
+export class HyliNoirError extends Error {
+  readonly code: ErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: ErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = "HyliNoirError";
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export type InputErrorCode =
+  | "INVALID_INPUT"
+  | "BLOB_SIZE_MISMATCH"
+  | "BLOB_MISMATCH"
+  | "INVALID_TX_HASH"
+  | "INVALID_IDENTITY"
+  | "ABI_MISMATCH";
+
+/**
+ * An argument that cannot be encoded into the circuit inputs.
+ */
+export class InputError extends HyliNoirError {
+  constructor(code: InputErrorCode, message: string) {
+    super(code, message);
+    this.name = "InputError";
+  }
+}
+
+/**
+ * A problem found by `abi.validate_inputs`, at a path such as `blobs[0].data`.
+ */
+export interface AbiProblem {
+  path: string;
+  message: string;
+}
+
+/**
+ * Circuit inputs that do not match the circuit ABI, with every problem found.
+ */
+export class AbiValidationError extends InputError {
+  readonly problems: AbiProblem[];
+
+  constructor(problems: AbiProblem[]) {
+    const report = problems.map(({ path, message }) => `  - ${path}: ${message}`).join("\n");
+    super("ABI_MISMATCH", `Inputs do not match the circuit ABI:\n${report}`);
+    this.name = "AbiValidationError";
+    this.problems = problems;
+  }
+}
+
+export type JwtErrorCode =
+  | "MISSING_JWT_INPUTS"
+  | "MISSING_JWT_CLAIMS"
+  | "UNKNOWN_KID"
+  | "JWKS_FETCH_FAILED"
+  | "MALFORMED_JWT"
+  | "UNSUPPORTED_ALGORITHM"
+  | "INVALID_SIGNATURE"
+  | "TOKEN_EXPIRED"
+  | "TOKEN_NOT_YET_VALID"
+  | "INVALID_ISSUER"
+  | "INVALID_AUDIENCE"
+  | "EMAIL_NOT_VERIFIED";
+
+/**
+ * A JWT that cannot be used to build a proof.
+ */
+export class JwtError extends HyliNoirError {
+  declare readonly code: JwtErrorCode;
+
+  constructor(code: JwtErrorCode, message: string) {
+    super(code, message);
+    this.name = "JwtError";
+  }
+}
+
+/**
+ * The circuit rejected its inputs, e.g. a wrong password or a JWT not matching the stored blob.
+ * `assertion` holds the message of the failed circuit assertion, and `call_stack` its location
+ * in the Noir sources when available.
+ */
+export class WitnessExecutionError extends HyliNoirError {
+  readonly circuit: string;
+  readonly assertion: string;
+  readonly call_stack: string[];
+
+  constructor(circuit: string, cause: unknown) {
+    const assertion = cause instanceof Error ? cause.message : String(cause);
+    super("WITNESS_EXECUTION_FAILED", `Witness execution of ${circuit} failed: ${assertion}`, cause);
+    this.name = "WitnessExecutionError";
+    this.circuit = circuit;
+    this.assertion = assertion;
+    this.call_stack = (cause as { noirCallStack?: string[] } | undefined)?.noirCallStack ?? [];
+  }
+}
+
+/**
+ * The backend failed to generate a proof from a valid witness.
+ */
+export class ProvingError extends HyliNoirError {
+  readonly circuit: string;
+
+  constructor(circuit: string, cause: unknown) {
+    super("PROVING_FAILED", `Proof generation of ${circuit} failed: ${cause instanceof Error ? cause.message : String(cause)}`, cause);
+    this.name = "ProvingError";
+    this.circuit = circuit;
+  }
+}
+
+/**
+ * Returns true if the error was thrown by the library with the given code.
+ *
+ * @param error - Any caught value
+ * @param code - The expected code
+ */
+export const is_error_code = (error: unknown, code: ErrorCode): error is HyliNoirError => {
+  return error instanceof HyliNoirError && error.code == code;
+};
@@ -0,0 +1,91 @@
+import { expect, test } from "bun:test";
+import { abi as noir_abi, CompiledCircuit } from "@noir-lang/noir_js";
+import secretCircuit from "../check-secret/target/check_secret.json";
+import { abi, errors, hyli_output, noir_utils } from "./lib";
+
+const output: hyli_output.HyliOutput = {
+  initial_state: [1, 2],
+  next_state: [3],
+  identity: "myuser@wallet",
+  index: 1,
+  blobs: [{ index: 1, contract_name: "check_secret", data: [7, 8, 9] }],
+  tx_blob_count: 2,
+  tx_hash: "560fe86f1f270d81ab77ecb4e3841bb6c289efcfc37e8c255ad03a26388ad6be",
+  success: true,
+};
+
+const sizes: hyli_output.HyliOutputSizes = {
+  initial_state_max: 4,
+  next_state_max: 4,
+  identity_max: 32,
+  blobs_max: 2,
+  blob_name_max: 16,
+  blob_data_max: 8,
+  program_outputs_max: 4,
+};
+
+test("encodes the SDK HyliOutput struct", () => {
+  const encoded = hyli_output.encode_hyli_output(output, sizes);
+
+  expect(encoded.version).toBe(2);
+  expect(encoded.initial_state).toEqual([1, 2, 0, 0]);
+  expect(encoded.initial_state_len).toBe(2);
+  expect(encoded.identity).toHaveLength(32);
+  expect(encoded.identity_len).toBe(13);
+  expect(encoded.blob_count).toBe(1);
+  expect(encoded.blob_slots).toBe(2);
+  expect(encoded.tx_hash).toHaveLength(32);
+  expect((encoded.tx_hash as number[])[0]).toBe(0x56);
+  expect(encoded.blobs).toEqual([
+    { index: 1, contract_name_len: 12, contract_name: "check_secret0000", data_len: 3, data: [7, 8, 9, 0, 0, 0, 0, 0] },
+    { index: 0, contract_name_len: 0, contract_name: "0000000000000000", data_len: 0, data: [0, 0, 0, 0, 0, 0, 0, 0] },
+  ]);
+  expect(encoded.program_outputs).toEqual([0, 0, 0, 0]);
+});
+
+test("rejects outputs that overflow the circuit sizes", () => {
+  expect(() => hyli_output.encode_hyli_output({ ...output, identity: `${"x".repeat(26)}@wallet` }, sizes)).toThrow();
+  expect(() => hyli_output.encode_hyli_output({ ...output, blobs: [...output.blobs, ...output.blobs, ...output.blobs] }, sizes)).toThrow();
+});
+
+test("reports encoding failures with error codes", () => {
+  const v1Sizes = { identity_max: 256, blob_name_max: 256, blob_data_max: 4 };
+  expect(() => hyli_output.encode_hyli_output_v1(output, v1Sizes)).toThrow(expect.objectContaining({ code: "BLOB_SIZE_MISMATCH" }));
+  expect(() => hyli_output.encode_hyli_output({ ...output, tx_hash: "abcd" }, sizes)).toThrow(errors.InputError);
+  expect(() => hyli_output.encode_hyli_output({ ...output, tx_hash: "abcd" }, sizes)).toThrow(expect.objectContaining({ code: "INVALID_TX_HASH" }));
+});
+
+test("encodes the flattened version 1 layout", () => {
+  const encoded = hyli_output.encode_hyli_output_v1(output, { identity_max: 256, blob_name_max: 256, blob_data_max: 3 });
+
+  expect(encoded.version).toBe(1);
+  expect(encoded.blob_number).toBe(1);
+  expect(encoded.blob_index).toBe(1);
+  expect(encoded.blob).toEqual([7, 8, 9]);
+  expect(encoded.blob_contract_name).toHaveLength(256);
+  expect(encoded.tx_hash).toBe(output.tx_hash);
+});
+
+test("decodes the HyliOutput of a proof transaction", () => {
+  const circuit = secretCircuit as CompiledCircuit;
+  const v1 = {
+    ...output,
+    initial_state: [1, 2, 3, 4],
+    next_state: [5, 6, 7, 8],
+    index: 0,
+    blobs: [{ index: 0, contract_name: "check_secret", data: new Array(32).fill(3) }],
+  };
+  const inputs = {
+    ...hyli_output.encode_hyli_output_v1(v1, { identity_max: 256, blob_name_max: 256, blob_data_max: 32 }),
+    password: new Array(32).fill(0),
+  };
+
+  // Public parameters come first in the witness, in declaration order
+  const witness = noir_abi.abiEncode(circuit.abi, inputs);
+  const publicInputs = Array.from(witness.values()).slice(0, abi.count_public_inputs(circuit.abi));
+  const proof = [...noir_utils.flattenFieldsAsArray(publicInputs), 1, 2, 3];
+
+  const decoded = hyli_output.decode_hyli_output({ contract_name: "check_secret", program_id: [], verifier: "noir", proof }, circuit.abi);
+
+  expect(decoded).toEqual({ ...v1, version: 1, program_outputs: [] });
+});
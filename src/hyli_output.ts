@@ -0,0 +1,374 @@
+import { splitHonkProof } from "@aztec/bb.js";
+import { Abi, AbiParameter, AbiType, InputMap } from "@noir-lang/types";
+import { Blob, ProofTransaction } from "hyli";
+import { AbiValue, count_public_inputs, decode_public_inputs } from "./abi";
+import { assert, bytesToBigInt, encodeToHex, stringToBytes } from "./common";
+import { InputErrorCode } from "./errors";
+import { encode_identity, IDENTITY_V1_MAX_LEN } from "./identity";
+import { parse_tx_hash, tx_hash_to_bytes } from "./tx_hash";
+
+/**
+ * Version of the `HyliOutput` struct defined in `hyli-noir-sdk`.
+ */
+export const HYLI_OUTPUT_VERSION = 2;
+
+/**
+ * The state commitment of stateless contracts.
+ * Version 1 circuits only accept this 4-byte zero state as both initial and next state.
+ */
+export const ZERO_STATE_COMMITMENT: readonly number[] = [0, 0, 0, 0];
+
+/**
+ * A blob consumed by a contract, mirroring the SDK's `BlobInput` struct.
+ */
+export interface BlobInput {
+  /** Index of the blob in the BlobTransaction. */
+  index: number;
+  contract_name: string;
+  data: number[] | Uint8Array;
+}
+
+/**
+ * A blob of the transaction read by a contract, with its index in the transaction.
+ */
+export type IndexedBlob = [index: number, blob: Blob];
+
+/**
+ * The public outputs of a contract execution, mirroring the SDK's `HyliOutput` struct.
+ * Lengths, capacities and padding are derived when encoding.
+ */
+export interface HyliOutput {
+  initial_state: number[];
+  next_state: number[];
+  /** The identity used to execute the transaction. */
+  identity: string;
+  /** The index of the blob being executed. */
+  index: number;
+  /** The blobs read by the contract. */
+  blobs: BlobInput[];
+  /** Number of blobs in the transaction. */
+  tx_blob_count: number;
+  /** TxHash of the BlobTransaction, hex encoded. */
+  tx_hash: string;
+  success: boolean;
+  program_outputs?: number[];
+}
+
+/**
+ * The generic sizes of a `HyliOutput<...>` instantiation, in the order of the Noir struct.
+ */
+export interface HyliOutputSizes {
+  initial_state_max: number;
+  next_state_max: number;
+  identity_max: number;
+  blobs_max: number;
+  blob_name_max: number;
+  blob_data_max: number;
+  program_outputs_max: number;
+}
+
+/**
+ * The sizes used by version 1 circuits, which expose a single flattened blob group
+ * (see `check-secret` and `check-jwt`).
+ */
+export type HyliOutputV1Sizes = Pick<HyliOutputSizes, "identity_max" | "blob_name_max" | "blob_data_max">;
+
+/**
+ * Builds the blob inputs of a HyliOutput from the blobs read by a contract.
+ * Each blob must be the one found at its index in the transaction, and is read at most once.
+ * Blobs are kept in the given order, which is the order the circuit sees them in.
+ *
+ * @param blobs - The blobs read by the contract, with their index in the transaction
+ * @param tx_blobs - All the blobs of the transaction
+ * @returns The blob inputs of the HyliOutput
+ * @throws InputError with code `BLOB_MISMATCH` if a blob does not match the transaction
+ */
+export const blob_inputs = (blobs: IndexedBlob[], tx_blobs: Blob[]): BlobInput[] => {
+  assert(blobs.length > 0, "No blob given, a contract reads at least the blob it executes");
+  const seen = new Set<number>();
+
+  return blobs.map(([index, blob]) => {
+    assert(
+      Number.isInteger(index) && index >= 0 && index < tx_blobs.length,
+      `Blob index ${index} is not in the transaction of ${tx_blobs.length} blobs`
+    );
+    assert(!seen.has(index), `Blob ${index} is given twice`);
+    seen.add(index);
+
+    const tx_blob = tx_blobs[index];
+    assert(
+      tx_blob.contract_name == blob.contract_name && bytesEqual(tx_blob.data, blob.data),
+      `Blob ${index} does not match the blob of the transaction`,
+      "BLOB_MISMATCH"
+    );
+    return { index, contract_name: blob.contract_name, data: blob.data };
+  });
+};
+
+/**
+ * Reads the generic sizes of the `HyliOutput<...>` public parameter of a circuit from its ABI.
+ *
+ * @param abi - The ABI of the compiled circuit
+ * @returns The sizes to encode the circuit's HyliOutput with
+ * @throws InputError if the circuit has no public HyliOutput struct parameter
+ */
+export const hyli_output_sizes = (abi: Abi): HyliOutputSizes => {
+  const parameter = hyli_output_parameter(abi);
+  assert(parameter != undefined, "Circuit has no public HyliOutput parameter");
+
+  const fields = structFields(parameter!.type);
+  const blobs = fields.blobs;
+  assert(blobs?.kind == "array", "HyliOutput has no blobs array");
+  const blob = structFields((blobs as Extract<AbiType, { kind: "array" }>).type);
+
+  return {
+    initial_state_max: typeLength(fields.initial_state),
+    next_state_max: typeLength(fields.next_state),
+    identity_max: typeLength(fields.identity),
+    blobs_max: typeLength(blobs),
+    blob_name_max: typeLength(blob.contract_name),
+    blob_data_max: typeLength(blob.data),
+    program_outputs_max: typeLength(fields.program_outputs),
+  };
+};
+
+/**
+ * Reads the string and blob capacities of a version 1 circuit from its ABI.
+ *
+ * @param abi - The ABI of the compiled circuit
+ * @returns The sizes to encode the circuit's flattened HyliOutput with
+ * @throws InputError if the circuit does not expose the version 1 parameters
+ */
+export const hyli_output_v1_sizes = (abi: Abi): HyliOutputV1Sizes => {
+  const types = Object.fromEntries(abi.parameters.map((parameter) => [parameter.name, parameter.type]));
+  return {
+    identity_max: typeLength(types.identity),
+    blob_name_max: typeLength(types.blob_contract_name),
+    blob_data_max: typeLength(types.blob),
+  };
+};
+
+/**
+ * Encodes a HyliOutput into the public inputs of a circuit, in the layout its ABI declares.
+ * Circuits taking the SDK's `HyliOutput` struct get it under their parameter name, other circuits
+ * get the flattened version 1 parameters. Sizes are read from the ABI.
+ *
+ * @param abi - The ABI of the compiled circuit
+ * @param output - The HyliOutput to encode
+ * @returns The public part of the circuit input map
+ */
+export const encode_circuit_output = (abi: Abi, output: HyliOutput): InputMap => {
+  const parameter = hyli_output_parameter(abi);
+  if (parameter) {
+    return { [parameter.name]: encode_hyli_output(output, hyli_output_sizes(abi)) };
+  }
+  return encode_hyli_output_v1(output, hyli_output_v1_sizes(abi));
+};
+
+/**
+ * Returns the public parameter of a circuit holding the SDK's `HyliOutput` struct, if any.
+ *
+ * @param abi - The ABI of the compiled circuit
+ * @returns The parameter, or undefined for version 1 circuits
+ */
+export const hyli_output_parameter = (abi: Abi): AbiParameter | undefined => {
+  return abi.parameters.find(
+    (parameter) => parameter.visibility == "public" && parameter.type.kind == "struct" && parameter.type.path.endsWith("HyliOutput")
+  );
+};
+
+/**
+ * Encodes a HyliOutput into the value of a `HyliOutput<...>` struct parameter of the SDK.
+ * The result is meant to be placed under the circuit's parameter name, e.g. `{ output: encode_hyli_output(...) }`.
+ * Unused blob slots are filled with empty blobs.
+ *
+ * @param output - The HyliOutput to encode
+ * @param sizes - The generic sizes of the circuit's HyliOutput
+ * @returns The struct value for the circuit input map
+ */
+export const encode_hyli_output = (output: HyliOutput, sizes: HyliOutputSizes): InputMap => {
+  const program_outputs = output.program_outputs ?? [];
+  const tx_hash = tx_hash_to_bytes(output.tx_hash);
+  assert(output.blobs.length <= sizes.blobs_max, `Blob count is ${output.blobs.length}, circuit supports ${sizes.blobs_max}`);
+
+  const identity = encode_identity(output.identity, sizes.identity_max);
+  const empty_blob: BlobInput = { index: 0, contract_name: "", data: [] };
+  const blobs = Array.from({ length: sizes.blobs_max }, (_, i) => encodeBlobInput(output.blobs[i] ?? empty_blob, sizes));
+
+  return {
+    version: HYLI_OUTPUT_VERSION,
+    initial_state_len: output.initial_state.length,
+    initial_state_max: sizes.initial_state_max,
+    initial_state: padBytes(output.initial_state, sizes.initial_state_max, "Initial state"),
+    next_state_len: output.next_state.length,
+    next_state_max: sizes.next_state_max,
+    next_state: padBytes(output.next_state, sizes.next_state_max, "Next state"),
+    identity_len: identity.identity_len,
+    identity_max: sizes.identity_max,
+    identity: identity.identity,
+    index: output.index,
+    blob_count: output.blobs.length,
+    blob_slots: sizes.blobs_max,
+    blob_name_max: sizes.blob_name_max,
+    blob_data_max: sizes.blob_data_max,
+    blobs,
+    tx_blob_count: output.tx_blob_count,
+    tx_hash: Array.from(tx_hash),
+    success: output.success,
+    program_outputs_max: sizes.program_outputs_max,
+    program_outputs_len: program_outputs.length,
+    program_outputs: padBytes(program_outputs, sizes.program_outputs_max, "Program outputs"),
+  };
+};
+
+/**
+ * Encodes a HyliOutput into the flattened version 1 parameters used by the bundled circuits.
+ * Version 1 circuits consume exactly one blob, stored without padding.
+ *
+ * @param output - The HyliOutput to encode
+ * @param sizes - The string and blob capacities of the circuit
+ * @returns The public part of the circuit input map
+ */
+export const encode_hyli_output_v1 = (output: HyliOutput, sizes: HyliOutputV1Sizes): InputMap => {
+  assert(output.blobs.length == 1, `Blob count is ${output.blobs.length}, version 1 circuits support exactly 1`);
+  const [blob] = output.blobs;
+  assert(
+    blob.data.length == sizes.blob_data_max,
+    `Blob length is ${blob.data.length} not ${sizes.blob_data_max} bytes`,
+    "BLOB_SIZE_MISMATCH"
+  );
+  const identity = encode_identity(output.identity, sizes.identity_max, IDENTITY_V1_MAX_LEN);
+
+  return {
+    version: 1,
+    initial_state: output.initial_state,
+    initial_state_len: output.initial_state.length,
+    next_state: output.next_state,
+    next_state_len: output.next_state.length,
+    identity: identity.identity,
+    identity_len: identity.identity_len,
+    tx_hash: parse_tx_hash(output.tx_hash),
+    index: output.index,
+    blob_number: output.blobs.length,
+    blob_index: blob.index,
+    blob_contract_name_len: stringToBytes(blob.contract_name).length,
+    blob_contract_name: padString(blob.contract_name, sizes.blob_name_max, "Blob contract name"),
+    blob_capacity: sizes.blob_data_max,
+    blob_len: blob.data.length,
+    blob: Array.from(blob.data),
+    tx_blob_count: output.tx_blob_count,
+    success: output.success,
+  };
+};
+
+/**
+ * A HyliOutput decoded from the public inputs of a proof, with padding removed.
+ */
+export type DecodedHyliOutput = HyliOutput & { version: number; program_outputs: number[] };
+
+/**
+ * Decodes the HyliOutput committed to by the public inputs of a proof transaction.
+ * Circuits taking the SDK's `HyliOutput` struct as a public parameter are decoded as version 2,
+ * other circuits are expected to expose the flattened version 1 parameters.
+ *
+ * @param proofTx - The proof transaction, as returned by build_proof_transaction
+ * @param abi - The ABI of the circuit the proof was generated with
+ * @returns The decoded HyliOutput
+ */
+export const decode_hyli_output = (proofTx: ProofTransaction, abi: Abi): DecodedHyliOutput => {
+  const { publicInputs } = splitHonkProof(Uint8Array.from(proofTx.proof), count_public_inputs(abi));
+  const fields = Array.from({ length: publicInputs.length / 32 }, (_, i) => bytesToBigInt(publicInputs.slice(i * 32, (i + 1) * 32)));
+  const values = decode_public_inputs(abi, fields);
+
+  const struct = hyli_output_parameter(abi);
+  if (struct) {
+    return decodeHyliOutputV2(values[struct.name] as Record<string, AbiValue>);
+  }
+  return decodeHyliOutputV1(values);
+};
+
+const decodeHyliOutputV2 = (values: Record<string, AbiValue>): DecodedHyliOutput => {
+  const blobs = (values.blobs as Record<string, AbiValue>[]).slice(0, values.blob_count as number).map((blob) => ({
+    index: blob.index as number,
+    contract_name: unpadString(blob.contract_name as string, blob.contract_name_len as number),
+    data: (blob.data as number[]).slice(0, blob.data_len as number),
+  }));
+
+  return {
+    version: values.version as number,
+    initial_state: (values.initial_state as number[]).slice(0, values.initial_state_len as number),
+    next_state: (values.next_state as number[]).slice(0, values.next_state_len as number),
+    identity: unpadString(values.identity as string, values.identity_len as number),
+    index: values.index as number,
+    blobs,
+    tx_blob_count: values.tx_blob_count as number,
+    tx_hash: encodeToHex(Uint8Array.from(values.tx_hash as number[])),
+    success: values.success as boolean,
+    program_outputs: (values.program_outputs as number[]).slice(0, values.program_outputs_len as number),
+  };
+};
+
+const decodeHyliOutputV1 = (values: Record<string, AbiValue>): DecodedHyliOutput => {
+  const missing = ["identity", "identity_len", "tx_hash", "blob_index", "blob_contract_name", "blob", "success"].filter(
+    (name) => !(name in values)
+  );
+  assert(missing.length == 0, `Circuit does not expose a HyliOutput, missing public parameters: ${missing.join(", ")}`);
+
+  return {
+    version: values.version as number,
+    initial_state: (values.initial_state as number[]).slice(0, values.initial_state_len as number),
+    next_state: (values.next_state as number[]).slice(0, values.next_state_len as number),
+    identity: unpadString(values.identity as string, values.identity_len as number),
+    index: values.index as number,
+    blobs: [
+      {
+        index: values.blob_index as number,
+        contract_name: unpadString(values.blob_contract_name as string, values.blob_contract_name_len as number),
+        data: (values.blob as number[]).slice(0, values.blob_len as number),
+      },
+    ],
+    tx_blob_count: values.tx_blob_count as number,
+    tx_hash: values.tx_hash as string,
+    success: values.success as boolean,
+    program_outputs: [],
+  };
+};
+
+const structFields = (type: AbiType): Record<string, AbiType> => {
+  assert(type.kind == "struct", `Expected a struct, got ${type.kind}`);
+  return Object.fromEntries((type as Extract<AbiType, { kind: "struct" }>).fields.map((field) => [field.name, field.type]));
+};
+
+const typeLength = (type: AbiType | undefined): number => {
+  assert(type?.kind == "array" || type?.kind == "string", `Expected an array or a string, got ${type?.kind}`);
+  return (type as { length: number }).length;
+};
+
+const bytesEqual = (a: number[] | Uint8Array, b: number[] | Uint8Array): boolean => {
+  return a.length == b.length && Array.from(a).every((byte, i) => byte == b[i]);
+};
+
+const unpadString = (value: string, len: number): string => {
+  return new TextDecoder().decode(stringToBytes(value).slice(0, len));
+};
+
+const encodeBlobInput = (blob: BlobInput, sizes: HyliOutputSizes): InputMap => {
+  return {
+    index: blob.index,
+    contract_name_len: stringToBytes(blob.contract_name).length,
+    contract_name: padString(blob.contract_name, sizes.blob_name_max, "Blob contract name"),
+    data_len: blob.data.length,
+    data: padBytes(blob.data, sizes.blob_data_max, "Blob data", "BLOB_SIZE_MISMATCH"),
+  };
+};
+
+const padString = (value: string, max: number, label: string): string => {
+  const len = stringToBytes(value).length;
+  assert(len <= max, `${label} length is ${len} bytes, exceeds ${max}`);
+  return value + "0".repeat(max - len);
+};
+
+const padBytes = (value: number[] | Uint8Array, max: number, label: string, code: InputErrorCode = "INVALID_INPUT"): number[] => {
+  assert(value.length <= max, `${label} length is ${value.length}, exceeds ${max} bytes`, code);
+  return [...Array.from(value), ...new Array(max - value.length).fill(0)];
+};
@@ -0,0 +1,42 @@
+import { expect, test } from "bun:test";
+import { CompiledCircuit } from "@noir-lang/noir_js";
+import secretCircuit from "../check-secret/target/check_secret.json";
+import { check_secret, hyli_output, identity, prover } from "./lib";
+
+test("encodes identities as UTF-8 bytes", () => {
+  expect(identity.encode_identity("jérôme@wallet", 16)).toEqual({ identity: "jérôme@wallet0", identity_len: 15 });
+  expect(identity.parse_identity("bob@example.com@wallet")).toEqual({ name: "bob@example.com", contract_name: "wallet" });
+
+  const invalid = expect.objectContaining({ code: "INVALID_IDENTITY" });
+  expect(() => identity.encode_identity("bob", 16)).toThrow(invalid);
+  expect(() => identity.encode_identity("@wallet", 16)).toThrow(invalid);
+  expect(() => identity.encode_identity("bob@", 16)).toThrow(invalid);
+  expect(() => identity.encode_identity("émilie@wallet", 13)).toThrow(invalid);
+  expect(() => identity.encode_identity(`${"x".repeat(249)}@wallet`, 256, identity.IDENTITY_V1_MAX_LEN)).toThrow(invalid);
+});
+
+test("proves non-ASCII identities", async () => {
+  const name = "jérôme@wallet";
+  const blob = await check_secret.build_blob(name, "hunter2");
+  const output: hyli_output.HyliOutput = {
+    initial_state: [0, 0, 0, 0],
+    next_state: [0, 0, 0, 0],
+    identity: name,
+    index: 0,
+    blobs: [{ index: 0, contract_name: "check_secret", data: blob.data }],
+    tx_blob_count: 1,
+    tx_hash: "241cc3c3c04120a6a55dbc852b1fa3f5f84589b9d56671fc503524435cd2b2d4",
+    success: true,
+  };
+  const inputs = {
+    ...hyli_output.encode_hyli_output_v1(output, { identity_max: 256, blob_name_max: 256, blob_data_max: 32 }),
+    password: Array.from(await check_secret.hash_password("hunter2")),
+  };
+
+  const local = new prover.Prover(secretCircuit as CompiledCircuit);
+  try {
+    expect(await local.execute(inputs)).toBeInstanceOf(Uint8Array);
+  } finally {
+    await local.destroy();
+  }
+});
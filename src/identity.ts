@@ -0,0 +1,43 @@
+import { assert, stringToBytes } from "./common";
+
+/**
+ * Maximum UTF-8 length of an identity in version 1 circuits, whose `identity_len` is a `u8`.
+ */
+export const IDENTITY_V1_MAX_LEN = 255;
+
+/**
+ * Splits a Hyli identity of the form `name@contract`.
+ * The contract is the part after the last `@`, so names may contain `@` themselves.
+ *
+ * @param identity - The identity string
+ * @returns The name and the contract name of the identity
+ * @throws InputError with code `INVALID_IDENTITY` if the identity is not of the form `name@contract`
+ */
+export const parse_identity = (identity: string): { name: string; contract_name: string } => {
+  const at = identity.lastIndexOf("@");
+  const name = identity.slice(0, at);
+  const contract_name = identity.slice(at + 1);
+  assert(at > 0 && name.length > 0 && contract_name.length > 0, `Identity "${identity}" is not of the form name@contract`, "INVALID_IDENTITY");
+  assert(!/\s/.test(contract_name), `Identity "${identity}" has an invalid contract name`, "INVALID_IDENTITY");
+  return { name, contract_name };
+};
+
+/**
+ * Encodes an identity into the `identity` and `identity_len` inputs of a circuit.
+ * Circuits work on the UTF-8 bytes of the identity, as `identity_hash` does: the length is
+ * counted in bytes and the string is padded with "0" up to the circuit capacity in bytes.
+ *
+ * @param identity - The identity string, of the form `name@contract`
+ * @param capacity - The size of the circuit's identity string, in bytes
+ * @param max_len - The maximum length allowed by the circuit's `identity_len` (defaults to the capacity)
+ * @returns The padded identity and its length in bytes
+ * @throws InputError with code `INVALID_IDENTITY` if the identity is malformed or too long
+ */
+export const encode_identity = (identity: string, capacity: number, max_len: number = capacity): { identity: string; identity_len: number } => {
+  parse_identity(identity);
+  const identity_len = stringToBytes(identity).length;
+  const limit = Math.min(capacity, max_len);
+  assert(identity_len <= limit, `Identity is ${identity_len} bytes in UTF-8, the circuit supports at most ${limit}`, "INVALID_IDENTITY");
+
+  return { identity: identity + "0".repeat(capacity - identity_len), identity_len };
+};
@@ -0,0 +1,49 @@
+import { expect, test } from "bun:test";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { jwks } from "./lib";
+import { stand_in_fetch } from "./testing";
+
+const key = (kid: string) => ({ kid, kty: "RSA", e: "AQAB", n: "sXch" });
+
+test("caches keys for the max-age of the response", async () => {
+  let now = 0;
+  const server = stand_in_fetch([
+    { body: { keys: [key("a")] }, headers: { "cache-control": "public, max-age=60", age: "10" } },
+    { body: { keys: [key("b")] } },
+  ]);
+  const client = new jwks.JwksClient("https://issuer/jwks", { fetch: server.fetch, now: () => now });
+
+  expect(await client.getKey("a")).toEqual(key("a"));
+  now = 49_000;
+  expect(await client.getKey("a")).toEqual(key("a"));
+  expect(server.calls).toHaveLength(1);
+
+  now = 50_000;
+  expect(await client.getKeys()).toEqual([key("b")]);
+  expect(server.calls).toHaveLength(2);
+});
+
+test("refreshes the keys on an unknown kid", async () => {
+  let now = 0;
+  const server = stand_in_fetch([{ body: { keys: [key("old")] } }, { body: { keys: [key("old"), key("new")] } }]);
+  const client = new jwks.JwksClient("https://issuer/jwks", { fetch: server.fetch, now: () => now, min_refresh_interval_ms: 1000 });
+
+  await client.getKeys();
+  await expect(client.getKey("new")).rejects.toThrow(expect.objectContaining({ code: "UNKNOWN_KID" }));
+  expect(server.calls).toHaveLength(1);
+
+  now = 1000;
+  expect(await client.getKey("new")).toEqual(key("new"));
+  expect(server.calls).toHaveLength(2);
+});
+
+test("reads the keys from a local file", async () => {
+  const path = join(await mkdtemp(join(tmpdir(), "jwks-")), "jwks.json");
+  await writeFile(path, JSON.stringify({ keys: [key("local")] }));
+
+  const client = new jwks.JwksClient(pathToFileURL(path));
+  expect(await client.getKey("local")).toEqual(key("local"));
+});
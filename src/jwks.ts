@@ -0,0 +1,141 @@
+import { JwtError } from "./errors";
+
+/**
+ * A public key of a JWK set, identified by its `kid`.
+ */
+export type Jwk = JsonWebKey & { kid: string };
+
+/**
+ * The subset of `fetch` used by the JwksClient.
+ */
+export type FetchLike = (url: string) => Promise<Pick<Response, "ok" | "status" | "headers" | "json">>;
+
+/**
+ * Options of a JwksClient.
+ */
+export interface JwksClientOptions {
+  /** Fetch function, defaults to the global `fetch`. */
+  fetch?: FetchLike;
+  /** How long keys are cached when the response has no cache headers. Defaults to 1 hour. */
+  default_max_age_ms?: number;
+  /** Minimum delay between two refreshes triggered by unknown kids. Defaults to 30 seconds. */
+  min_refresh_interval_ms?: number;
+  /** Clock, defaults to `Date.now`. */
+  now?: () => number;
+}
+
+/**
+ * Fetches and caches the JWK set of an identity provider.
+ *
+ * Keys are cached for the duration given by the `Cache-Control: max-age` (minus `Age`) or
+ * `Expires` headers of the response, and refetched once they are stale. A JWT signed with an
+ * unknown kid triggers a refresh, so key rotations are picked up without waiting for expiry.
+ *
+ * The JWK set can also be read from a local JSON file with a `file:` URL.
+ */
+export class JwksClient {
+  readonly url: string;
+  private fetch: FetchLike;
+  private default_max_age_ms: number;
+  private min_refresh_interval_ms: number;
+  private now: () => number;
+  private keys?: Jwk[];
+  private expires_at = 0;
+  private fetched_at = -Infinity;
+  private pending?: Promise<Jwk[]>;
+
+  constructor(url: string | URL, options: JwksClientOptions = {}) {
+    this.url = url.toString();
+    this.fetch = options.fetch ?? ((url) => fetch(url));
+    this.default_max_age_ms = options.default_max_age_ms ?? 60 * 60 * 1000;
+    this.min_refresh_interval_ms = options.min_refresh_interval_ms ?? 30 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Returns the keys of the JWK set, fetching them if the cache is empty or stale.
+   */
+  async getKeys(): Promise<Jwk[]> {
+    if (this.keys && this.now() < this.expires_at) {
+      return this.keys;
+    }
+    return await this.refresh();
+  }
+
+  /**
+   * Returns the key with the given kid.
+   * An unknown kid refreshes the JWK set, at most once per `min_refresh_interval_ms`.
+   *
+   * @param kid - The kid of the JWT header
+   * @returns A Promise resolving to the matching key
+   * @throws JwtError with code `UNKNOWN_KID` if no key matches after refreshing
+   */
+  async getKey(kid: string): Promise<Jwk> {
+    let key = (await this.getKeys()).find((key) => key.kid == kid);
+    if (!key && this.now() - this.fetched_at >= this.min_refresh_interval_ms) {
+      key = (await this.refresh()).find((key) => key.kid == kid);
+    }
+    if (!key) {
+      throw new JwtError("UNKNOWN_KID", `Public key with id ${kid} not found in ${this.url}`);
+    }
+    return key;
+  }
+
+  /**
+   * Fetches the JWK set, ignoring the cache. Concurrent calls share the same request.
+   */
+  refresh(): Promise<Jwk[]> {
+    if (!this.pending) {
+      this.pending = this.load().finally(() => (this.pending = undefined));
+    }
+    return this.pending;
+  }
+
+  private async load(): Promise<Jwk[]> {
+    const { body, max_age_ms } = this.url.startsWith("file:") ? await readJwksFile(this.url) : await this.download();
+    const keys = (body as { keys?: unknown }).keys;
+    if (!Array.isArray(keys)) {
+      throw new JwtError("JWKS_FETCH_FAILED", `Invalid JWK set at ${this.url}: missing keys`);
+    }
+
+    this.keys = keys as Jwk[];
+    this.fetched_at = this.now();
+    this.expires_at = this.fetched_at + (max_age_ms ?? this.default_max_age_ms);
+    return this.keys;
+  }
+
+  private async download(): Promise<{ body: unknown; max_age_ms?: number }> {
+    const response = await this.fetch(this.url);
+    if (!response.ok) {
+      throw new JwtError("JWKS_FETCH_FAILED", `Failed to fetch JWK set from ${this.url}: HTTP ${response.status}`);
+    }
+    return { body: await response.json(), max_age_ms: cacheMaxAge(response.headers, this.now()) };
+  }
+}
+
+/**
+ * Returns how long a response may be cached according to its headers, if they say so.
+ */
+const cacheMaxAge = (headers: Headers, now: number): number | undefined => {
+  const cache_control = headers.get("cache-control")?.toLowerCase() ?? "";
+  if (/(^|,)\s*(no-store|no-cache)\s*(,|$)/.test(cache_control)) {
+    return 0;
+  }
+
+  const max_age = /(^|,)\s*max-age\s*=\s*(\d+)/.exec(cache_control);
+  if (max_age) {
+    const age = parseInt(headers.get("age") ?? "0", 10) || 0;
+    return Math.max(0, parseInt(max_age[2], 10) - age) * 1000;
+  }
+
+  const expires = Date.parse(headers.get("expires") ?? "");
+  if (!isNaN(expires)) {
+    return Math.max(0, expires - now);
+  }
+  return undefined;
+};
+
+const readJwksFile = async (url: string): Promise<{ body: unknown; max_age_ms?: number }> => {
+  const { readFile } = await import("node:fs/promises");
+  return { body: JSON.parse(await readFile(new URL(url), "utf8")) };
+};
@@ -0,0 +1,44 @@
+import { expect, test } from "bun:test";
+import { jwt } from "./lib";
+import { jwt_signer } from "./testing";
+
+const { pubkey, sign } = await jwt_signer("key-1");
+
+const now = 1_700_000_000;
+const claims = {
+  iss: "https://accounts.google.com",
+  aud: "my-client-id",
+  email: "bob@example.com",
+  email_verified: true,
+  nonce: "1234",
+  iat: now - 10,
+  exp: now + 3600,
+};
+
+const options = { issuer: "https://accounts.google.com", audience: "my-client-id", now: () => now * 1000 };
+
+test("accepts a valid token", async () => {
+  const result = await jwt.validate_jwt(await sign(claims), [pubkey], options);
+  expect(result).toMatchObject({ valid: true, claims, header: { kid: "key-1" } });
+});
+
+test("rejects tokens with a structured code", async () => {
+  const rejection = async (token: string, overrides: Partial<jwt.JwtValidationOptions> = {}) => {
+    const result = await jwt.validate_jwt(token, [pubkey], { ...options, ...overrides });
+    return result.valid ? "valid" : result.code;
+  };
+
+  expect(await rejection(await sign({ ...claims, exp: now - 61 }))).toBe("TOKEN_EXPIRED");
+  expect(await rejection(await sign({ ...claims, exp: now - 59 }))).toBe("valid");
+  expect(await rejection(await sign({ ...claims, nbf: now + 120 }))).toBe("TOKEN_NOT_YET_VALID");
+  expect(await rejection(await sign({ ...claims, aud: ["other"] }))).toBe("INVALID_AUDIENCE");
+  expect(await rejection(await sign(claims), { issuer: "https://example.com" })).toBe("INVALID_ISSUER");
+  expect(await rejection(await sign({ ...claims, email_verified: false }))).toBe("EMAIL_NOT_VERIFIED");
+  expect(await rejection(await sign(claims, { alg: "HS256", kid: "key-1" }))).toBe("UNSUPPORTED_ALGORITHM");
+  expect(await rejection(await sign(claims, { alg: "RS256", kid: "key-2" }))).toBe("UNKNOWN_KID");
+  expect(await rejection("not-a-jwt")).toBe("MALFORMED_JWT");
+
+  const [header, , signature] = (await sign(claims)).split(".");
+  const tampered = Buffer.from(JSON.stringify({ ...claims, email: "eve@example.com" })).toString("base64url");
+  expect(await rejection(`${header}.${tampered}.${signature}`)).toBe("INVALID_SIGNATURE");
+});
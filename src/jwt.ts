@@ -0,0 +1,202 @@
+import { b64urlToU8 } from "./common";
+import { JwtError, JwtErrorCode } from "./errors";
+import { Jwk, JwksClient } from "./jwks";
+
+/**
+ * The header of a JWT.
+ */
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The registered and OpenID claims of a JWT checked by the validator.
+ */
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  email?: string;
+  email_verified?: boolean | string;
+  nonce?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Options of validate_jwt. Claims whose expected value is not given are not checked.
+ */
+export interface JwtValidationOptions {
+  /** Accepted issuers (`iss`). */
+  issuer?: string | string[];
+  /** Accepted audiences, one of which must be in `aud`. */
+  audience?: string | string[];
+  /** Tolerance on `exp`, `nbf` and `iat`, in seconds. Defaults to 60. */
+  clock_skew_s?: number;
+  /** Requires `email_verified` to be true, as the check_jwt circuit does. Defaults to true. */
+  require_email_verified?: boolean;
+  /** Name of the email verification claim. Defaults to `email_verified`. */
+  email_verified_claim?: string;
+  /** Clock in milliseconds, defaults to `Date.now`. */
+  now?: () => number;
+}
+
+/**
+ * The outcome of validate_jwt. Rejections carry the JwtError code and a human readable reason.
+ */
+export type JwtValidationResult =
+  | { valid: true; header: JwtHeader; claims: JwtClaims; key: JsonWebKey }
+  | { valid: false; code: JwtErrorCode; reason: string; header?: JwtHeader; claims?: JwtClaims };
+
+/**
+ * Decodes the header and claims of a JWT, without verifying it.
+ *
+ * @param jwt - A JWT string in the format header.payload.signature
+ * @returns The decoded header and claims
+ * @throws JwtError with code `MALFORMED_JWT` if the token cannot be decoded
+ */
+export const decode_jwt = (jwt: string): { header: JwtHeader; claims: JwtClaims } => {
+  const parts = jwt.split(".");
+  if (parts.length != 3) {
+    throw new JwtError("MALFORMED_JWT", `JWT has ${parts.length} parts, expected 3`);
+  }
+
+  try {
+    const decoder = new TextDecoder();
+    return {
+      header: JSON.parse(decoder.decode(b64urlToU8(parts[0]))),
+      claims: JSON.parse(decoder.decode(b64urlToU8(parts[1]))),
+    };
+  } catch (error) {
+    throw new JwtError("MALFORMED_JWT", `JWT cannot be decoded: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Validates a JWT before proving: its RS256 signature is verified with WebCrypto against the key
+ * matching its kid, then its `exp`, `nbf`, `iat`, `iss`, `aud` and `email_verified` claims are checked.
+ * This rejects tokens the circuit would fail on, or that the application should not accept,
+ * without paying for input generation and proving.
+ *
+ * @param jwt - A JWT string in the format header.payload.signature
+ * @param keys - The JWK set of the issuer, a JwksClient fetching it, or the public key itself
+ * @param options - The expected claims
+ * @returns A Promise resolving to the validation result
+ */
+export const validate_jwt = async (
+  jwt: string,
+  keys: Jwk[] | JwksClient | JsonWebKey,
+  options: JwtValidationOptions = {}
+): Promise<JwtValidationResult> => {
+  let header: JwtHeader | undefined;
+  let claims: JwtClaims | undefined;
+  try {
+    ({ header, claims } = decode_jwt(jwt));
+    const key = await selectKey(header, keys);
+    await verifySignature(jwt, header, key);
+    checkClaims(claims, options);
+    return { valid: true, header, claims, key };
+  } catch (error) {
+    if (error instanceof JwtError) {
+      return { valid: false, code: error.code, reason: error.message, header, claims };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Validates a JWT like validate_jwt, throwing on rejection.
+ *
+ * @param jwt - A JWT string in the format header.payload.signature
+ * @param keys - The JWK set of the issuer, a JwksClient fetching it, or the public key itself
+ * @param options - The expected claims
+ * @returns A Promise resolving to the verified header, claims and public key
+ * @throws JwtError with the code of the rejection
+ */
+export const assert_valid_jwt = async (
+  jwt: string,
+  keys: Jwk[] | JwksClient | JsonWebKey,
+  options: JwtValidationOptions = {}
+): Promise<{ header: JwtHeader; claims: JwtClaims; key: JsonWebKey }> => {
+  const result = await validate_jwt(jwt, keys, options);
+  if (!result.valid) {
+    throw new JwtError(result.code, result.reason);
+  }
+  return result;
+};
+
+const selectKey = async (header: JwtHeader, keys: Jwk[] | JwksClient | JsonWebKey): Promise<JsonWebKey> => {
+  if (keys instanceof JwksClient) {
+    if (!header.kid) {
+      throw new JwtError("MISSING_JWT_CLAIMS", "JWT header has no kid");
+    }
+    return await keys.getKey(header.kid);
+  }
+  if (!Array.isArray(keys)) {
+    return keys;
+  }
+
+  const key = keys.find((key) => key.kid == header.kid);
+  if (!key) {
+    throw new JwtError("UNKNOWN_KID", `Public key with id ${header.kid} not found`);
+  }
+  return key;
+};
+
+const verifySignature = async (jwt: string, header: JwtHeader, key: JsonWebKey): Promise<void> => {
+  if (header.alg != "RS256") {
+    throw new JwtError("UNSUPPORTED_ALGORITHM", `JWT algorithm ${header.alg} is not supported, expected RS256`);
+  }
+
+  const publicKey = await crypto.subtle
+    .importKey("jwk", { kty: key.kty, n: key.n, e: key.e }, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, ["verify"])
+    .catch((error) => {
+      throw new JwtError("INVALID_SIGNATURE", `Public key cannot be imported: ${error.message}`);
+    });
+
+  const signed = jwt.slice(0, jwt.lastIndexOf("."));
+  const signature = b64urlToU8(jwt.slice(jwt.lastIndexOf(".") + 1));
+  // @ts-expect-error
+  if (!(await crypto.subtle.verify("RSASSA-PKCS1-v1_5", publicKey, signature, new TextEncoder().encode(signed)))) {
+    throw new JwtError("INVALID_SIGNATURE", "JWT signature does not match the public key");
+  }
+};
+
+const checkClaims = (claims: JwtClaims, options: JwtValidationOptions): void => {
+  const now = (options.now ?? Date.now)() / 1000;
+  const skew = options.clock_skew_s ?? 60;
+
+  if (claims.exp == undefined || now - skew >= claims.exp) {
+    throw new JwtError("TOKEN_EXPIRED", claims.exp == undefined ? "JWT has no exp claim" : `JWT expired at ${claims.exp}`);
+  }
+  if (claims.nbf != undefined && now + skew < claims.nbf) {
+    throw new JwtError("TOKEN_NOT_YET_VALID", `JWT is not valid before ${claims.nbf}`);
+  }
+  if (claims.iat != undefined && now + skew < claims.iat) {
+    throw new JwtError("TOKEN_NOT_YET_VALID", `JWT is issued in the future, at ${claims.iat}`);
+  }
+
+  const issuers = toArray(options.issuer);
+  if (issuers.length > 0 && !issuers.includes(claims.iss ?? "")) {
+    throw new JwtError("INVALID_ISSUER", `JWT issuer ${claims.iss} is not accepted`);
+  }
+
+  const audiences = toArray(options.audience);
+  if (audiences.length > 0 && !toArray(claims.aud).some((aud) => audiences.includes(aud))) {
+    throw new JwtError("INVALID_AUDIENCE", `JWT audience ${claims.aud} is not accepted`);
+  }
+
+  const email_verified = claims[options.email_verified_claim ?? "email_verified"];
+  if ((options.require_email_verified ?? true) && email_verified !== true && email_verified !== "true") {
+    throw new JwtError("EMAIL_NOT_VERIFIED", `JWT email ${claims.email} is not verified`);
+  }
+};
+
+const toArray = (value: string | string[] | undefined): string[] => {
+  return value == undefined ? [] : Array.isArray(value) ? value : [value];
+};
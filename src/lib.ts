@@ -1,5 +1,47 @@
 import * as check_secret from "./check_secret";
 import * as check_jwt from "./check_jwt";
+import * as hyli_output from "./hyli_output";
 import * as noir_utils from "./common";
+import * as abi from "./abi";
+import * as prover from "./prover";
+import * as verify from "./verify";
+import * as telemetry from "./telemetry";
+import * as errors from "./errors";
+import * as jwks from "./jwks";
+import * as jwt from "./jwt";
+import * as oidc from "./oidc";
+import * as nonce from "./nonce";
+import * as credentials from "./credentials";
+import * as identity from "./identity";
+import * as tx_hash from "./tx_hash";
+import * as proof from "./proof";
+import * as contract from "./contract";
+import * as circuit from "./circuit";
+import * as node from "./node";
+import * as login from "./login";
+import * as settlement from "./settlement";
 
-export { check_secret, check_jwt, noir_utils };
+export {
+  check_secret,
+  check_jwt,
+  hyli_output,
+  noir_utils,
+  abi,
+  prover,
+  verify,
+  telemetry,
+  errors,
+  jwks,
+  jwt,
+  oidc,
+  nonce,
+  credentials,
+  identity,
+  tx_hash,
+  proof,
+  contract,
+  circuit,
+  node,
+  login,
+  settlement,
+};
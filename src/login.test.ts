@@ -0,0 +1,87 @@
+import { expect, test } from "bun:test";
+import { CompiledCircuit } from "@noir-lang/noir_js";
+import jwtCircuit from "../check-jwt/target/check_jwt.json";
+import secretCircuit from "../check-secret/target/check_secret.json";
+import { check_jwt, check_secret, oidc } from "./lib";
+import { AbiCheckingProver, fake_timer, jwt_signer, stand_in_node, WitnessProver } from "./testing";
+
+const app_blob = { contract_name: "hydentity", data: [1, 2, 3] };
+
+test("logs in with a password and application blobs", async () => {
+  const { node, requests } = stand_in_node({
+    sendBlobTx: [new Error("Sending Blob Transaction: 503 Service Unavailable"), "ab".repeat(32)],
+    sendProofTx: ["cd".repeat(32)],
+  });
+  const { delays, sleep } = fake_timer();
+  const local = new WitnessProver(secretCircuit as CompiledCircuit);
+  try {
+    const result = await check_secret.login(node, "bob@check_secret", "hunter2", {
+      blobs: [app_blob],
+      circuit: local,
+      sleep,
+    });
+
+    const blob = await check_secret.build_blob("bob@check_secret", "hunter2");
+    expect(result).toEqual({
+      identity: "bob@check_secret",
+      tx_hash: "ab".repeat(32),
+      blobs: [blob, app_blob],
+      blob_index: 0,
+      proof_tx_hash: "cd".repeat(32),
+    });
+    expect(requests.map(({ method, args }) => [method, args[0]])).toEqual([
+      ["sendBlobTx", { identity: "bob@check_secret", blobs: [blob, app_blob] }],
+      ["sendBlobTx", { identity: "bob@check_secret", blobs: [blob, app_blob] }],
+      ["sendProofTx", { contract_name: "check_secret", program_id: [9], verifier: "noir", proof: [1, 2, 3] }],
+    ]);
+    expect(local.executed[0]).toMatchObject({ blob_index: 0, tx_blob_count: 2 });
+    expect(delays).toEqual([500]);
+  } finally {
+    await local.destroy();
+  }
+});
+
+test("does not retry rejected transactions", async () => {
+  const { node, requests } = stand_in_node({ sendBlobTx: [new Error("Sending Blob Transaction: 400 Bad Request")] });
+  await expect(check_secret.login(node, "bob@check_secret", "hunter2", { sleep: fake_timer().sleep })).rejects.toThrow(
+    expect.objectContaining({
+      code: "NODE_REQUEST_FAILED",
+      message: "Failed to send blob transaction: Sending Blob Transaction: 400 Bad Request",
+    })
+  );
+  expect(requests).toHaveLength(1);
+});
+
+test("gives up after the last retry", async () => {
+  const { node } = stand_in_node({ sendBlobTx: [Object.assign(new Error("Service Unavailable"), { status: 503 })] });
+  const { delays, sleep } = fake_timer();
+  const login = check_secret.login(node, "bob@check_secret", "hunter2", { retries: 2, retry_delay_ms: 10, sleep });
+
+  await expect(login).rejects.toThrow("Failed to send blob transaction after 3 attempts: Service Unavailable");
+  expect(delays).toEqual([10, 20]);
+});
+
+test("logs in with a JWT from another provider", async () => {
+  const { pubkey, sign } = await jwt_signer("kc-1");
+  const provider = oidc.keycloak("https://auth.example.com/realms/main");
+  const claims = { iss: provider.issuer, email: "bob@example.com", email_verified: true, nonce: "42", exp: Date.now() / 1000 + 60 };
+  const token = await sign(claims);
+  const { node, requests } = stand_in_node({ sendBlobTx: ["ab".repeat(32)], sendProofTx: ["cd".repeat(32)] });
+
+  const local = new AbiCheckingProver(jwtCircuit as CompiledCircuit);
+  try {
+    const result = await check_jwt.login(node, "bob@check_jwt", token, [pubkey], { circuit: local, provider, validation: {} });
+    const { blob } = await check_jwt.build_blob_from_jwt(token, [pubkey], {}, provider);
+    expect(result).toMatchObject({ tx_hash: "ab".repeat(32), blobs: [blob], blob_index: 0, proof_tx_hash: "cd".repeat(32) });
+    expect(requests.map(({ method }) => method)).toEqual(["sendBlobTx", "sendProofTx"]);
+    expect(local.executed).toHaveLength(1);
+  } finally {
+    await local.destroy();
+  }
+
+  // The issuer of the given provider is expected
+  const google_token = await sign({ ...claims, iss: "https://accounts.google.com" });
+  await expect(check_jwt.login(node, "bob@check_jwt", google_token, [pubkey], { provider, validation: {} })).rejects.toThrow(
+    expect.objectContaining({ code: "INVALID_ISSUER" })
+  );
+});
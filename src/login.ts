@@ -0,0 +1,66 @@
+import { Blob, NodeApiHttpClient } from "hyli";
+import { CircuitSource } from "./circuit";
+import { NoirContract } from "./contract";
+import { RetryOptions, with_retry } from "./node";
+import { Prover } from "./prover";
+import { Telemetry } from "./telemetry";
+
+/**
+ * Options of a login.
+ */
+export interface LoginOptions extends RetryOptions {
+  /** Blobs of the application, sent in the same transaction after the identity blob. */
+  blobs?: Blob[];
+  /** A compiled circuit or a Prover to use instead of the contract's circuit. */
+  circuit?: CircuitSource | Prover;
+  /** Logger and metrics hooks for the proof (defaults to the Prover's, if any). */
+  telemetry?: Telemetry;
+}
+
+/**
+ * The transactions sent by a login.
+ */
+export interface LoginResult {
+  identity: string;
+  /** Hash of the blob transaction. */
+  tx_hash: string;
+  /** The blobs of the transaction, the identity blob first. */
+  blobs: Blob[];
+  /** Index of the identity blob in the transaction. */
+  blob_index: number;
+  /** Hash of the proof transaction. */
+  proof_tx_hash: string;
+}
+
+/**
+ * Logs in with a contract: sends a blob transaction holding the contract's blob and the application blobs,
+ * proves the contract's blob for it and sends the proof. Requests failing on temporary node errors are retried.
+ *
+ * @param node - The NodeApiHttpClient instance to interact with the node
+ * @param contract - The identity contract, e.g. `check_secret.contract`
+ * @param params - The parameters of the contract's blob and proof, with the identity
+ * @param options - The application blobs, the circuit and how requests are retried
+ * @returns A Promise resolving to the hashes of the blob and proof transactions
+ * @throws HyliNoirError with code `NODE_REQUEST_FAILED` if the node rejects a transaction or stays unavailable
+ */
+export const login = async <P extends { identity: string }>(
+  node: NodeApiHttpClient,
+  contract: NoirContract<P>,
+  params: P,
+  options: LoginOptions = {}
+): Promise<LoginResult> => {
+  const { identity } = params;
+  const blob = await contract.buildBlob(params);
+  const blobs = [blob, ...(options.blobs ?? [])];
+  const blob_index = 0;
+
+  const tx_hash = await with_retry("send blob transaction", () => node.sendBlobTx({ identity, blobs }), options);
+  const proofTx = await contract.prove(
+    params,
+    { tx_hash, blob_index, tx_blob_count: blobs.length, blob_data: blob.data },
+    { circuit: options.circuit, telemetry: options.telemetry }
+  );
+  const proof_tx_hash = await with_retry("send proof transaction", () => node.sendProofTx(proofTx), options);
+
+  return { identity, tx_hash, blobs, blob_index, proof_tx_hash };
+};
@@ -0,0 +1,85 @@
+import { HyliNoirError } from "./errors";
+
+/**
+ * How requests to the node are retried on temporary errors: timeouts, rate limiting, server errors
+ * and failed connections. The delay doubles after each attempt.
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt. Defaults to 3. */
+  retries?: number;
+  /** Delay before the first retry. Defaults to 500ms. */
+  retry_delay_ms?: number;
+  /** Waits between attempts, defaults to `setTimeout`. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Returns the HTTP status of a failed node request, if the client reports one.
+ *
+ * @param error - The error thrown by the NodeApiHttpClient
+ * @returns The status, or undefined if unknown
+ */
+export const error_status = (error: unknown): number | undefined => {
+  const { status, response } = (error ?? {}) as { status?: unknown; response?: { status?: unknown } };
+  const code = status ?? response?.status;
+  return typeof code == "number" ? code : undefined;
+};
+
+/**
+ * Tells whether a node request failed because the resource does not exist (HTTP 404).
+ * The client reports the status as a property or in its message.
+ *
+ * @param error - The error thrown by the NodeApiHttpClient
+ * @returns True if the node answered not found
+ */
+export const is_not_found = (error: unknown): boolean => {
+  const status = error_status(error);
+  return status != undefined ? status == 404 : /\b404\b|not found/i.test(error_message(error));
+};
+
+/**
+ * Tells whether a node request failed temporarily, and may succeed if retried.
+ *
+ * @param error - The error thrown by the NodeApiHttpClient
+ * @returns True for timeouts, rate limiting, server errors and failed connections
+ */
+export const is_temporary_error = (error: unknown): boolean => {
+  const status = error_status(error);
+  if (status != undefined) {
+    return status == 408 || status == 429 || status >= 500;
+  }
+  return /\b(408|429|5\d\d)\b|timed? ?out|ECONNREFUSED|ECONNRESET|fetch failed|failed to fetch|network/i.test(error_message(error));
+};
+
+/**
+ * Runs a node request, retrying it on temporary errors.
+ *
+ * @param description - What the request does, e.g. "send blob transaction", for the error message
+ * @param request - The request
+ * @param options - How the request is retried
+ * @returns A Promise resolving to the result of the request
+ * @throws HyliNoirError with code `NODE_REQUEST_FAILED` once the request fails with a permanent error or runs out of retries
+ */
+export const with_retry = async <T>(description: string, request: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, retry_delay_ms = 500 } = options;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= retries || !is_temporary_error(error)) {
+        const attempts = attempt == 0 ? "" : ` after ${attempt + 1} attempts`;
+        throw new HyliNoirError("NODE_REQUEST_FAILED", `Failed to ${description}${attempts}: ${error_message(error)}`, error);
+      }
+      await sleep(retry_delay_ms * 2 ** attempt);
+    }
+  }
+};
+
+/**
+ * Returns the message of an error thrown by a node request.
+ */
+export const error_message = (error: unknown): string => {
+  return error instanceof Error ? error.message : String(error);
+};
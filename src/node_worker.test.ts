@@ -0,0 +1,35 @@
+import { expect, test } from "bun:test";
+import { spawnSync } from "node:child_process";
+import { writeFile } from "node:fs/promises";
+import { check_secret_inputs } from "./testing";
+
+// Node has no Web Worker, so the built library starts the worker_threads entry
+const script = `
+import { readFile } from "node:fs/promises";
+const { prover } = await import(process.argv[2]);
+const circuit = JSON.parse(await readFile(process.argv[3], "utf8"));
+const worker = new prover.Prover(circuit, { worker: true });
+try {
+  const witness = await worker.execute(JSON.parse(process.argv[4]));
+  console.log(JSON.stringify({ length: witness.length }));
+} finally {
+  await worker.destroy();
+}
+`;
+
+test("runs the built prover worker under Node", async () => {
+  // Built by scripts/test_build.ts, preloaded by bun test
+  const outDir = process.env.HYLI_NOIR_TEST_BUILD;
+  expect(outDir).toBeDefined();
+
+  // Workers inherit the flags of the process, so the script is run from a file rather than with `-e`
+  const run = `${outDir}run.mjs`;
+  await writeFile(run, script);
+  const circuit = new URL("../check-secret/target/check_secret.json", import.meta.url).pathname;
+  const args = [run, `${outDir}hyli-noir.es.js`, circuit, JSON.stringify(await check_secret_inputs())];
+  const { status, stdout, stderr } = spawnSync("node", args, { encoding: "utf8", timeout: 60_000 });
+
+  expect(stderr).toBe("");
+  expect(status).toBe(0);
+  expect(JSON.parse(stdout).length).toBeGreaterThan(0);
+}, 120_000);
@@ -0,0 +1,24 @@
+import type { WorkerPort, WorkerResponse } from "./worker";
+
+/**
+ * Starts the prover worker in a worker_threads Worker.
+ * Kept apart from `worker.ts` so that the Web Worker global is not shadowed and the
+ * bundler picks up both worker entries. Under Node, only the built library can start it.
+ */
+export const start_node_worker = async (
+  onMessage: (response: WorkerResponse) => void,
+  onError: (error: Error) => void
+): Promise<WorkerPort> => {
+  const { Worker } = await import("node:worker_threads");
+  // The build emits the worker as JavaScript and points this URL to it, Node cannot run the TypeScript source
+  const worker = new Worker(new URL("./prover.worker.ts", import.meta.url));
+  worker.on("message", onMessage);
+  worker.on("error", (error: Error) => onError(error));
+  worker.on("exit", (code: number) => onError(new Error(`exited with code ${code}`)));
+  return {
+    post: (request) => worker.postMessage(request),
+    terminate: async () => {
+      await worker.terminate();
+    },
+  };
+};
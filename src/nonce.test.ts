@@ -0,0 +1,32 @@
+import { expect, test } from "bun:test";
+import { nonce } from "./lib";
+
+const commitment = { identity: "bob@check_jwt", session_key: new Uint8Array([1, 2, 3]), expires_at: 1_700_000_600 };
+const now = 1_700_000_000_000;
+
+test("derives a nonce the check_jwt blob can store", async () => {
+  const value = await nonce.derive_nonce(commitment);
+  expect(value).toMatch(/^[1-9][0-9]{14}$/);
+  expect(parseInt(value, 10).toString()).toBe(value);
+  expect(await nonce.derive_nonce({ ...commitment })).toBe(value);
+});
+
+test("binds the nonce to the committed action", async () => {
+  const value = await nonce.derive_nonce(commitment);
+  expect(await nonce.verify_nonce(value, commitment, now)).toBe(true);
+  expect(await nonce.verify_nonce(parseInt(value, 10), commitment, now)).toBe(true);
+
+  expect(await nonce.verify_nonce(value, { ...commitment, identity: "eve@check_jwt" }, now)).toBe(false);
+  expect(await nonce.verify_nonce(value, { ...commitment, session_key: new Uint8Array([1, 2, 4]) }, now)).toBe(false);
+  expect(await nonce.verify_nonce(value, { ...commitment, context: "transfer" }, now)).toBe(false);
+  expect(await nonce.verify_nonce(value, commitment, commitment.expires_at * 1000)).toBe(false);
+});
+
+test("rejects commitments expiring later than the longest lifetime", async () => {
+  const start = (commitment.expires_at - nonce.MAX_NONCE_LIFETIME_S) * 1000;
+  const value = await nonce.derive_nonce(commitment, start);
+  expect(await nonce.verify_nonce(value, commitment, start)).toBe(true);
+  expect(await nonce.verify_nonce(value, commitment, start - 1000)).toBe(false);
+
+  await expect(nonce.derive_nonce(commitment, start - 1000)).rejects.toThrow(expect.objectContaining({ code: "INVALID_INPUT" }));
+});
@@ -0,0 +1,104 @@
+import { assert, sha256, stringToBytes } from "./common";
+
+/**
+ * Number of decimal digits of a derived nonce.
+ * The check_jwt blob stores the nonce as a decimal integer padded to 16 bytes, and it is parsed
+ * with `parseInt`, so nonces are kept within the safe integer range and have no leading zero.
+ */
+export const NONCE_DIGITS = 15;
+
+/**
+ * Longest lifetime of a nonce commitment, in seconds: `expires_at` may be at most 10 minutes away.
+ * The nonce only binds about 49 bits, so a commitment must expire before a collision can be searched for.
+ */
+export const MAX_NONCE_LIFETIME_S = 600;
+
+const NONCE_DOMAIN = "hyli-noir/oidc-nonce/v1";
+const NONCE_MIN = 10n ** BigInt(NONCE_DIGITS - 1);
+const NONCE_RANGE = 10n ** BigInt(NONCE_DIGITS) - NONCE_MIN;
+
+/**
+ * The action an OIDC login is bound to.
+ */
+export interface NonceCommitment {
+  /** The Hyli identity the login is for, e.g. `bob@check_jwt`. */
+  identity: string;
+  /** The session key the login authorises, e.g. the public key of an ephemeral keypair. */
+  session_key: string | Uint8Array | number[];
+  /** Expiry of the login, in seconds since the epoch. */
+  expires_at: number;
+  /** Optional application specific context, e.g. the action being authorised. */
+  context?: string;
+}
+
+/**
+ * Derives the OIDC nonce of a login from a commitment to the intended action.
+ * The nonce is requested from the identity provider, ends up signed in the ID token and is
+ * stored in the check_jwt blob, so a captured ID token cannot be reused for another action.
+ *
+ * The nonce is the SHA-256 hash of the commitment, reduced to a 15-digit decimal number, which
+ * gives about 49 bits of binding: the nonce must fit the 16 bytes of the blob and be read back as
+ * a safe integer. Finding another commitment with the same nonce takes about 2^49 hashes, within
+ * reach of a determined attacker, so commitments should expire within minutes and the nonce must
+ * not be the only protection of a high-value action.
+ *
+ * @param commitment - The action the login is bound to, expiring within MAX_NONCE_LIFETIME_S
+ * @param now - Current time in milliseconds, defaults to `Date.now()`
+ * @returns A Promise resolving to the nonce as a decimal string
+ * @throws InputError if the commitment expires more than MAX_NONCE_LIFETIME_S from now
+ */
+export const derive_nonce = async (commitment: NonceCommitment, now: number = Date.now()): Promise<string> => {
+  assert(
+    !outlivesMaximum(commitment, now),
+    `Nonce expiry ${commitment.expires_at} is more than ${MAX_NONCE_LIFETIME_S} seconds away, the longest lifetime of a nonce`
+  );
+  const digest = await sha256(encodeCommitment(commitment));
+  let value = 0n;
+  for (const byte of digest.slice(0, 16)) {
+    value = (value << 8n) + BigInt(byte);
+  }
+  return (NONCE_MIN + (value % NONCE_RANGE)).toString();
+};
+
+/**
+ * Checks that a nonce, e.g. the one returned by `check_jwt.build_blob_from_jwt`, was derived
+ * from the expected commitment and that the commitment has not expired.
+ * A commitment expiring more than MAX_NONCE_LIFETIME_S from now is rejected, whatever the caller supplied.
+ *
+ * @param nonce - The nonce of the ID token or blob
+ * @param commitment - The expected commitment
+ * @param now - Current time in milliseconds, defaults to `Date.now()`
+ * @returns A Promise resolving to true if the nonce matches and is neither expired nor expiring too late
+ */
+export const verify_nonce = async (nonce: string | number, commitment: NonceCommitment, now: number = Date.now()): Promise<boolean> => {
+  if (now / 1000 >= commitment.expires_at || outlivesMaximum(commitment, now)) {
+    return false;
+  }
+  return String(nonce) == (await derive_nonce(commitment, now));
+};
+
+const outlivesMaximum = (commitment: NonceCommitment, now: number): boolean => {
+  return commitment.expires_at - now / 1000 > MAX_NONCE_LIFETIME_S;
+};
+
+const encodeCommitment = (commitment: NonceCommitment): Uint8Array => {
+  const session_key = typeof commitment.session_key == "string" ? stringToBytes(commitment.session_key) : commitment.session_key;
+  assert(
+    Number.isSafeInteger(commitment.expires_at) && commitment.expires_at >= 0,
+    `Nonce expiry ${commitment.expires_at} is not a timestamp in seconds`
+  );
+
+  // Every field is length-prefixed so that different commitments never share an encoding
+  const fields = [
+    stringToBytes(NONCE_DOMAIN),
+    stringToBytes(commitment.identity),
+    Uint8Array.from(session_key),
+    stringToBytes(commitment.expires_at.toString()),
+    stringToBytes(commitment.context ?? ""),
+  ];
+  const bytes: number[] = [];
+  for (const field of fields) {
+    bytes.push((field.length >>> 24) & 0xff, (field.length >>> 16) & 0xff, (field.length >>> 8) & 0xff, field.length & 0xff, ...field);
+  }
+  return Uint8Array.from(bytes);
+};
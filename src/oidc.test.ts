@@ -0,0 +1,45 @@
+import { expect, test } from "bun:test";
+import { check_jwt, jwks, oidc } from "./lib";
+import { jwt_signer } from "./testing";
+
+const { pubkey, sign } = await jwt_signer("kc-1");
+
+const provider = {
+  ...oidc.keycloak("https://auth.example.com/realms/main/"),
+  jwks: new jwks.JwksClient("https://auth.example.com/realms/main/protocol/openid-connect/certs", {
+    fetch: async () => new Response(JSON.stringify({ keys: [pubkey] })),
+  }),
+};
+
+test("presets point at the provider endpoints", () => {
+  expect(provider.issuer).toBe("https://auth.example.com/realms/main");
+  expect(oidc.auth0("my-app.eu.auth0.com").jwks).toBe("https://my-app.eu.auth0.com/.well-known/jwks.json");
+  expect(oidc.google.normalize_email("Bob@Gmail.com")).toBe("bob@gmail.com");
+  expect(oidc.provider_keys(oidc.google)).toBe(oidc.provider_keys(oidc.google));
+});
+
+test("builds the blob of a token from another provider", async () => {
+  const claims = { iss: provider.issuer, email: "Bob@Example.com", email_verified: true, nonce: "42", exp: Date.now() / 1000 + 60 };
+  const token = await sign(claims);
+
+  const { nonce, pubkey: key, mail_hash } = await check_jwt.build_blob_from_jwt(token, provider, {});
+  expect(nonce).toBe(42);
+  expect(key).toEqual(pubkey);
+  expect(mail_hash).toEqual(Array.from((await check_jwt.poseidon_hash("bob@example.com")).value));
+  const verbatim = await check_jwt.build_blob_from_jwt(token, { ...provider, normalize_email: (email) => email }, {});
+  expect(verbatim.mail_hash).toEqual(Array.from((await check_jwt.poseidon_hash("Bob@Example.com")).value));
+
+  const other = await sign({ ...claims, iss: "https://accounts.google.com" });
+  await expect(check_jwt.build_blob_from_jwt(other, provider, {})).rejects.toThrow(expect.objectContaining({ code: "INVALID_ISSUER" }));
+});
+
+test("expects Google's issuer with plain keys and no provider", async () => {
+  const claims = { iss: provider.issuer, email: "bob@gmail.com", email_verified: true, nonce: "42", exp: Date.now() / 1000 + 60 };
+  const invalid = expect.objectContaining({ code: "INVALID_ISSUER" });
+  await expect(check_jwt.build_blob_from_jwt(await sign(claims), [pubkey], {})).rejects.toThrow(invalid);
+
+  const google = await sign({ ...claims, iss: "https://accounts.google.com" });
+  expect((await check_jwt.build_blob_from_jwt(google, [pubkey], {})).nonce).toBe(42);
+  // An explicit issuer replaces the provider's
+  expect((await check_jwt.build_blob_from_jwt(await sign(claims), [pubkey], { issuer: provider.issuer })).nonce).toBe(42);
+});
@@ -0,0 +1,115 @@
+import { JwksClient } from "./jwks";
+
+/**
+ * An OpenID Connect identity provider whose id tokens are proven with check_jwt.
+ *
+ * The claim names and `max_signed_data_length` must match the circuit the tokens are proven
+ * with: the bundled check_jwt circuit reads the `email`, `email_verified` and `nonce` claims and
+ * accepts 640 bytes of signed data after the partial SHA. Other values need a circuit compiled
+ * with them, passed as the `circuit` argument.
+ */
+export interface OidcProvider {
+  /** Name of the provider, used in error messages. */
+  name: string;
+  /** Accepted `iss` values of the tokens. */
+  issuer: string | string[];
+  /** URL of the JWK set (`jwks_uri`), or a JwksClient. */
+  jwks: string | JwksClient;
+  /** Names of the claims read by the circuit. */
+  claims: { email: string; email_verified: string; nonce: string };
+  /** Maximum length of the signed data after the partial SHA, as compiled in the circuit. */
+  max_signed_data_length: number;
+  /**
+   * Normalises the email claim before it is hashed into the blob, lowercasing it by default.
+   * It must return the claim as the circuit hashes it: providers issuing emails with uppercase
+   * letters need `(email) => email` to be proven.
+   */
+  normalize_email: (email: string) => string;
+}
+
+const DEFAULT_CLAIMS = { email: "email", email_verified: "email_verified", nonce: "nonce" };
+const DEFAULT_MAX_SIGNED_DATA_LENGTH = 640;
+
+/**
+ * Builds a provider with the claims and signed data length of the bundled check_jwt circuit.
+ *
+ * @param provider - The name, issuer and JWKS of the provider, and any setting to override
+ * @returns The provider configuration
+ */
+export const define_oidc_provider = (
+  provider: Pick<OidcProvider, "name" | "issuer" | "jwks"> & Partial<OidcProvider>
+): OidcProvider => {
+  return {
+    claims: DEFAULT_CLAIMS,
+    max_signed_data_length: DEFAULT_MAX_SIGNED_DATA_LENGTH,
+    normalize_email: (email) => email.toLowerCase(),
+    ...provider,
+  };
+};
+
+/**
+ * Google accounts. Google issues lowercase emails.
+ */
+export const google: OidcProvider = define_oidc_provider({
+  name: "Google",
+  issuer: ["https://accounts.google.com", "accounts.google.com"],
+  jwks: "https://www.googleapis.com/oauth2/v3/certs",
+});
+
+/**
+ * GitLab.com accounts.
+ */
+export const gitlab: OidcProvider = define_oidc_provider({
+  name: "GitLab",
+  issuer: "https://gitlab.com",
+  jwks: "https://gitlab.com/oauth/discovery/keys",
+});
+
+/**
+ * An Auth0 tenant, e.g. `auth0("my-app.eu.auth0.com")`.
+ *
+ * @param domain - The domain of the tenant
+ */
+export const auth0 = (domain: string): OidcProvider => {
+  return define_oidc_provider({
+    name: "Auth0",
+    issuer: `https://${domain}/`,
+    jwks: `https://${domain}/.well-known/jwks.json`,
+  });
+};
+
+/**
+ * A Keycloak realm, e.g. `keycloak("https://auth.example.com/realms/main")`.
+ *
+ * @param realm_url - The URL of the realm, which is also its issuer
+ */
+export const keycloak = (realm_url: string): OidcProvider => {
+  const issuer = realm_url.replace(/\/+$/, "");
+  return define_oidc_provider({
+    name: "Keycloak",
+    issuer,
+    jwks: `${issuer}/protocol/openid-connect/certs`,
+  });
+};
+
+const clients = new Map<string, JwksClient>();
+
+/**
+ * Returns the JwksClient of a provider. Clients created from a URL are shared, so that their
+ * cache is reused across calls.
+ *
+ * @param provider - The provider
+ * @returns The JwksClient fetching the provider's keys
+ */
+export const provider_keys = (provider: OidcProvider): JwksClient => {
+  if (provider.jwks instanceof JwksClient) {
+    return provider.jwks;
+  }
+
+  let client = clients.get(provider.jwks);
+  if (!client) {
+    client = new JwksClient(provider.jwks);
+    clients.set(provider.jwks, client);
+  }
+  return client;
+};
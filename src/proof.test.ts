@@ -0,0 +1,173 @@
+import { expect, test } from "bun:test";
+import { Abi, AbiType, CompiledCircuit } from "@noir-lang/types";
+import { NodeApiHttpClient } from "hyli";
+import secretCircuit from "../check-secret/target/check_secret.json";
+import { hyli_output, proof } from "./lib";
+import { WitnessProver } from "./testing";
+
+const bytes = (length: number): AbiType => ({ kind: "array", length, type: { kind: "integer", sign: "unsigned", width: 8 } });
+const u32: AbiType = { kind: "integer", sign: "unsigned", width: 32 };
+
+// ABI of a circuit taking `output: HyliOutput<4, 4, 64, 3, 32, 16, 0>`
+const abi: Abi = {
+  parameters: [
+    {
+      name: "output",
+      visibility: "public",
+      type: {
+        kind: "struct",
+        path: "hyli_noir_sdk::HyliOutput",
+        fields: [
+          { name: "initial_state", type: bytes(4) },
+          { name: "next_state", type: bytes(4) },
+          { name: "identity", type: { kind: "string", length: 64 } },
+          {
+            name: "blobs",
+            type: {
+              kind: "array",
+              length: 3,
+              type: {
+                kind: "struct",
+                path: "hyli_noir_sdk::BlobInput",
+                fields: [
+                  { name: "index", type: u32 },
+                  { name: "contract_name", type: { kind: "string", length: 32 } },
+                  { name: "data", type: bytes(16) },
+                ],
+              },
+            },
+          },
+          { name: "program_outputs", type: bytes(0) },
+        ],
+      },
+    },
+    { name: "password", visibility: "private", type: bytes(32) },
+  ],
+  return_type: null,
+  error_types: {},
+};
+
+const tx_blobs = [
+  { contract_name: "check_secret", data: [1, 2, 3] },
+  { contract_name: "token", data: [4, 5] },
+  { contract_name: "other", data: [6] },
+];
+
+test("reads the HyliOutput sizes from the ABI", () => {
+  expect(hyli_output.hyli_output_sizes(abi)).toEqual({
+    initial_state_max: 4,
+    next_state_max: 4,
+    identity_max: 64,
+    blobs_max: 3,
+    blob_name_max: 32,
+    blob_data_max: 16,
+    program_outputs_max: 0,
+  });
+});
+
+test("fills the blobs read by a contract and leaves the other slots empty", async () => {
+  const output = await proof.build_hyli_output({
+    contract_name: "token",
+    identity: "bob@check_secret",
+    tx_hash: "0x" + "ab".repeat(32),
+    index: 1,
+    blobs: [
+      [1, tx_blobs[1]],
+      [0, tx_blobs[0]],
+    ],
+    tx_blobs,
+  });
+  expect(output.tx_blob_count).toBe(3);
+  expect(output.blobs.map((blob) => blob.index)).toEqual([1, 0]);
+
+  const encoded = hyli_output.encode_hyli_output(output, hyli_output.hyli_output_sizes(abi));
+  const blobs = encoded.blobs as { index: number; contract_name_len: number; data_len: number }[];
+  expect(encoded.blob_count).toBe(2);
+  expect(encoded.blob_slots).toBe(3);
+  expect(blobs.map(({ index, contract_name_len, data_len }) => [index, contract_name_len, data_len])).toEqual([
+    [1, 5, 2],
+    [0, 12, 3],
+    [0, 0, 0],
+  ]);
+});
+
+test("rejects blobs that are not those of the transaction", async () => {
+  const request = { contract_name: "token", identity: "bob@check_secret", tx_hash: "ab".repeat(32), index: 1, tx_blobs };
+
+  await expect(proof.build_hyli_output({ ...request, blobs: [[1, { contract_name: "token", data: [4, 6] }]] })).rejects.toThrow(
+    expect.objectContaining({ code: "BLOB_MISMATCH" })
+  );
+  await expect(proof.build_hyli_output({ ...request, blobs: [[3, tx_blobs[1]]] })).rejects.toThrow("not in the transaction");
+  await expect(proof.build_hyli_output({ ...request, blobs: [[1, tx_blobs[1]], [1, tx_blobs[1]]] })).rejects.toThrow("given twice");
+  await expect(proof.build_hyli_output({ ...request, blobs: [[0, tx_blobs[0]]] })).rejects.toThrow("not one of the blobs");
+  await expect(proof.build_hyli_output({ ...request, index: 0, blobs: [[0, tx_blobs[0]]] })).rejects.toThrow(
+    expect.objectContaining({ code: "BLOB_MISMATCH", message: "Executed blob 0 is for contract check_secret, not token" })
+  );
+});
+
+test("computes the next state from the initial state", async () => {
+  const blobs: hyli_output.IndexedBlob[] = [[0, tx_blobs[0]]];
+  const request = { contract_name: "check_secret", identity: "bob@check_secret", tx_hash: "ab".repeat(32), index: 0, blobs, tx_blobs };
+
+  const increment = (state: number[]) => [state[0] + 1, ...state.slice(1)];
+  const output = await proof.build_hyli_output({ ...request, initial_state: [41, 0, 0, 0], next_state: increment });
+  expect(output.initial_state).toEqual([41, 0, 0, 0]);
+  expect(output.next_state).toEqual([42, 0, 0, 0]);
+  expect((await proof.build_hyli_output({ ...request, initial_state: [7] })).next_state).toEqual([7]);
+
+  // Stateless contracts default to the zero state, as registered by register_contract
+  const stateless = await proof.build_hyli_output(request);
+  expect([stateless.initial_state, stateless.next_state]).toEqual([[0, 0, 0, 0], [0, 0, 0, 0]]);
+});
+
+// The program_id of a WitnessProver is [9]
+const circuitProver = new WitnessProver(secretCircuit as CompiledCircuit);
+
+test("registers a contract with its initial state commitment", async () => {
+  const registered: unknown[] = [];
+  const node = {
+    getContract: async () => Promise.reject(new Error("Getting Contract: 404 Not Found")),
+    registerContract: async (tx: unknown) => registered.push(tx) && "ab".repeat(32),
+  } as unknown as NodeApiHttpClient;
+
+  expect(await proof.register_contract(node, "counter", circuitProver, [5, 0, 0, 0])).toEqual({
+    status: "registered",
+    contract_name: "counter",
+    program_id: [9],
+    tx_hash: "ab".repeat(32),
+  });
+  expect(registered).toEqual([{ verifier: "noir", program_id: [9], state_commitment: [5, 0, 0, 0], contract_name: "counter" }]);
+});
+
+test("checks the program_id of a registered contract", async () => {
+  const deployed = (program_id: number[]) =>
+    ({
+      getContract: async (name: string) => ({ name, program_id, state: [0, 0, 0, 0], verifier: "noir" }),
+      registerContract: async () => Promise.reject(new Error("already registered")),
+    }) as unknown as NodeApiHttpClient;
+
+  expect(await proof.register_contract(deployed([9]), "counter", circuitProver)).toEqual({
+    status: "already_registered",
+    contract_name: "counter",
+    program_id: [9],
+  });
+  expect(await proof.register_contract(deployed([1, 2]), "counter", circuitProver)).toEqual({
+    status: "program_id_mismatch",
+    contract_name: "counter",
+    program_id: [9],
+    deployed_program_id: [1, 2],
+  });
+});
+
+test("does not register when the node cannot be queried", async () => {
+  let registrations = 0;
+  const node = {
+    getContract: async () => Promise.reject(new Error("fetch failed: ECONNREFUSED")),
+    registerContract: async () => registrations++,
+  } as unknown as NodeApiHttpClient;
+
+  await expect(proof.register_contract(node, "counter", circuitProver)).rejects.toThrow(
+    expect.objectContaining({ code: "NODE_REQUEST_FAILED" })
+  );
+  expect(registrations).toBe(0);
+});
@@ -0,0 +1,197 @@
+import { InputMap } from "@noir-lang/types";
+import { Blob, Contract, NodeApiHttpClient, ProofTransaction } from "hyli";
+import { CircuitSource } from "./circuit";
+import { assert } from "./common";
+import { HyliNoirError } from "./errors";
+import {
+  blob_inputs,
+  encode_hyli_output,
+  HyliOutput,
+  HyliOutputSizes,
+  hyli_output_parameter,
+  hyli_output_sizes,
+  IndexedBlob,
+  ZERO_STATE_COMMITMENT,
+} from "./hyli_output";
+import { error_message, is_not_found } from "./node";
+import { circuit_program_id, Prover, with_prover } from "./prover";
+import { Telemetry } from "./telemetry";
+import { parse_tx_hash, TxHashInput } from "./tx_hash";
+
+/**
+ * Computes the next state of a contract from its initial state.
+ */
+export type StateTransition = (initial_state: number[]) => number[] | Promise<number[]>;
+
+/**
+ * The public part of a proof for a circuit taking the SDK's `HyliOutput` struct.
+ */
+export interface ProofRequest {
+  /** Name of the contract the proof is for. */
+  contract_name: string;
+  /** The identity of the blob transaction. */
+  identity: string;
+  /** The blob transaction hash, as a hex string (with or without `0x`) or bytes. */
+  tx_hash: TxHashInput;
+  /** The index of the blob being executed, which must be one of `blobs`. */
+  index: number;
+  /** The blobs read by the contract, with their index in the transaction. */
+  blobs: IndexedBlob[];
+  /** All the blobs of the transaction. */
+  tx_blobs: Blob[];
+  /** The state commitment of the contract before the transaction, as stored on Hyli (defaults to ZERO_STATE_COMMITMENT). */
+  initial_state?: number[];
+  /**
+   * The state commitment after the transaction, or a function computing it from the initial state
+   * (defaults to the initial state).
+   */
+  next_state?: number[] | StateTransition;
+  /** Defaults to true. */
+  success?: boolean;
+  program_outputs?: number[];
+}
+
+/**
+ * Options of `build_proof_transaction`.
+ */
+export interface ProofOptions {
+  /** Logger and metrics hooks for this proof (defaults to the Prover's, if any). */
+  telemetry?: Telemetry;
+  /** Sizes of the circuit's HyliOutput (defaults to the sizes read from the circuit ABI). */
+  sizes?: HyliOutputSizes;
+}
+
+/**
+ * Builds the HyliOutput of a proof request.
+ * Blobs are checked against the transaction, the executed blob must be one of the contract, and the blob count of
+ * the transaction is taken from it.
+ * The next state is computed from the initial state if a state transition is given.
+ *
+ * @param request - The proof request
+ * @returns A Promise resolving to the HyliOutput to encode
+ */
+export const build_hyli_output = async (request: ProofRequest): Promise<HyliOutput> => {
+  const blobs = blob_inputs(request.blobs, request.tx_blobs);
+  const executed = blobs.find((blob) => blob.index == request.index);
+  assert(executed != undefined, `Executed blob ${request.index} is not one of the blobs read by the contract`);
+  assert(
+    executed!.contract_name == request.contract_name,
+    `Executed blob ${request.index} is for contract ${executed!.contract_name}, not ${request.contract_name}`,
+    "BLOB_MISMATCH"
+  );
+
+  const initial_state = request.initial_state ?? [...ZERO_STATE_COMMITMENT];
+  const next_state = typeof request.next_state == "function" ? await request.next_state(initial_state) : request.next_state;
+
+  return {
+    initial_state,
+    next_state: next_state ?? initial_state,
+    identity: request.identity,
+    index: request.index,
+    blobs,
+    tx_blob_count: request.tx_blobs.length,
+    tx_hash: parse_tx_hash(request.tx_hash),
+    success: request.success ?? true,
+    program_outputs: request.program_outputs,
+  };
+};
+
+/**
+ * Builds a proof transaction for a circuit taking the SDK's `HyliOutput` struct as a public parameter.
+ * The contract may read several blobs of the transaction: the HyliOutput is filled with the given
+ * blobs, and unused blob slots of the circuit are left empty.
+ *
+ * @param request - The public part of the proof
+ * @param private_inputs - The remaining inputs of the circuit, keyed by parameter name
+ * @param circuit - The compiled Noir circuit or its Prover
+ * @param options - Telemetry hooks and HyliOutput sizes
+ * @returns A Promise resolving to a ProofTransaction containing the generated proof
+ */
+export const build_proof_transaction = async (
+  request: ProofRequest,
+  private_inputs: InputMap,
+  circuit: CircuitSource | Prover,
+  options: ProofOptions = {}
+): Promise<ProofTransaction> => {
+  const output = await build_hyli_output(request);
+
+  return await with_prover(
+    circuit,
+    async (prover) => {
+      const { abi } = await prover.compiledCircuit();
+      const parameter = hyli_output_parameter(abi);
+      assert(parameter != undefined, "Circuit has no public HyliOutput parameter");
+      const sizes = options.sizes ?? hyli_output_sizes(abi);
+      const inputs = { ...private_inputs, [parameter!.name]: encode_hyli_output(output, sizes) };
+
+      return {
+        contract_name: request.contract_name,
+        program_id: await prover.programId(),
+        verifier: "noir",
+        proof: await prover.prove(inputs, options.telemetry),
+      };
+    },
+    { name: request.contract_name, ...options.telemetry }
+  );
+};
+
+/**
+ * The outcome of `register_contract`:
+ * - `registered`: the contract was not found and was registered now, by the transaction `tx_hash`
+ * - `already_registered`: the contract exists with the program_id of the circuit
+ * - `program_id_mismatch`: the contract exists with another program_id, e.g. a stale circuit, and proofs of
+ *   the circuit will be rejected by the node
+ */
+export type RegistrationResult =
+  | { status: "registered"; contract_name: string; program_id: number[]; tx_hash: string }
+  | { status: "already_registered"; contract_name: string; program_id: number[] }
+  | { status: "program_id_mismatch"; contract_name: string; program_id: number[]; deployed_program_id: number[] };
+
+/**
+ * Registers a contract with the node if it is not already registered, and checks the program_id of an existing one.
+ * Stateful contracts are registered with the commitment of their initial state, which the
+ * `initial_state` of the first proof must match.
+ *
+ * @param node - The NodeApiHttpClient instance to interact with the node
+ * @param contract_name - The name of the contract
+ * @param circuit - The compiled Noir circuit or its Prover
+ * @param state_commitment - The initial state commitment (defaults to the zero state of stateless contracts)
+ * @returns A Promise resolving to the outcome of the registration
+ * @throws HyliNoirError with code `NODE_REQUEST_FAILED` if the node cannot be queried, or fails to register the contract
+ */
+export const register_contract = async (
+  node: NodeApiHttpClient,
+  contract_name: string,
+  circuit: CircuitSource | Prover,
+  state_commitment: number[] = [...ZERO_STATE_COMMITMENT]
+): Promise<RegistrationResult> => {
+  const program_id = await circuit_program_id(circuit, { name: contract_name });
+
+  let deployed: Contract | undefined;
+  try {
+    deployed = await node.getContract(contract_name);
+  } catch (error) {
+    // Only a missing contract is registered, an unreachable node must not look like one
+    if (!is_not_found(error)) {
+      throw new HyliNoirError("NODE_REQUEST_FAILED", `Failed to get contract ${contract_name}: ${error_message(error)}`, error);
+    }
+  }
+
+  if (deployed) {
+    if (deployed.verifier == "noir" && sameBytes(deployed.program_id, program_id)) {
+      return { status: "already_registered", contract_name, program_id };
+    }
+    return { status: "program_id_mismatch", contract_name, program_id, deployed_program_id: deployed.program_id };
+  }
+
+  try {
+    const tx_hash = await node.registerContract({ verifier: "noir", program_id, state_commitment, contract_name });
+    return { status: "registered", contract_name, program_id, tx_hash };
+  } catch (error) {
+    throw new HyliNoirError("NODE_REQUEST_FAILED", `Failed to register contract ${contract_name}: ${error_message(error)}`, error);
+  }
+};
+
+const sameBytes = (a: number[] | undefined, b: number[]): boolean => {
+  return a?.length == b.length && a.every((byte, i) => byte == b[i]);
+};
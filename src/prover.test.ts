@@ -0,0 +1,100 @@
+import { expect, test } from "bun:test";
+import { CompiledCircuit, InputMap } from "@noir-lang/noir_js";
+import secretCircuit from "../check-secret/target/check_secret.json";
+import { check_secret, errors, prover, telemetry } from "./lib";
+import { check_secret_inputs } from "./testing";
+
+test("executes the circuit in a worker", async () => {
+  const local = new prover.Prover(secretCircuit as CompiledCircuit);
+  const worker = new prover.Prover(secretCircuit as CompiledCircuit, { worker: true });
+  try {
+    const witness = await worker.execute(await check_secret_inputs());
+    expect(witness).toBeInstanceOf(Uint8Array);
+    expect(witness).toEqual(await local.execute(await check_secret_inputs()));
+  } finally {
+    await worker.destroy();
+    await local.destroy();
+  }
+});
+
+test("reports circuit failures from the worker", async () => {
+  const worker = new prover.Prover(secretCircuit as CompiledCircuit, { worker: true });
+  try {
+    const wrong = { ...(await check_secret_inputs()), password: new Array(32).fill(0) };
+    const error = await worker.execute(wrong).catch((error) => error);
+    expect(error).toBeInstanceOf(errors.WitnessExecutionError);
+    expect(error).toMatchObject({ code: "WITNESS_EXECUTION_FAILED", circuit: "circuit", assertion: "Cannot satisfy constraint" });
+    expect(error.call_stack.join()).toContain("input_hash == blob");
+  } finally {
+    await worker.destroy();
+  }
+  await expect(worker.execute(await check_secret_inputs())).rejects.toThrow(expect.objectContaining({ code: "PROVER_DESTROYED" }));
+});
+
+test("starts a new worker once the worker is killed mid-call", async () => {
+  const Worker = globalThis.Worker;
+  const workers: Worker[] = [];
+  globalThis.Worker = class extends Worker {
+    constructor(url: string | URL, options?: WorkerOptions) {
+      super(url, options);
+      workers.push(this);
+    }
+
+    postMessage(message: { method: string }) {
+      super.postMessage(message);
+      // The first worker dies while executing the circuit
+      if (workers.length == 1 && message.method == "execute") {
+        this.terminate();
+      }
+    }
+  } as typeof Worker;
+
+  const worker = new prover.Prover(secretCircuit as CompiledCircuit, { worker: true });
+  try {
+    await expect(worker.execute(await check_secret_inputs())).rejects.toThrow(expect.objectContaining({ code: "WORKER_FAILED" }));
+    expect(await worker.execute(await check_secret_inputs())).toBeInstanceOf(Uint8Array);
+    expect(workers).toHaveLength(2);
+  } finally {
+    globalThis.Worker = Worker;
+    await worker.destroy();
+  }
+});
+
+test("reports witness execution timings", async () => {
+  const metrics: telemetry.ProvingMetric[] = [];
+  const local = check_secret.create_prover(secretCircuit as CompiledCircuit, { metrics: (metric) => metrics.push(metric) });
+  try {
+    await local.execute(await check_secret_inputs());
+    await expect(local.execute({ ...(await check_secret_inputs()), password: new Array(32).fill(0) })).rejects.toThrow();
+  } finally {
+    await local.destroy();
+  }
+  expect(metrics.map(({ circuit, stage, success }) => ({ circuit, stage, success }))).toEqual([
+    { circuit: "check_secret", stage: "witness_execution", success: true },
+    { circuit: "check_secret", stage: "witness_execution", success: false },
+  ]);
+});
+
+test("reports every input that does not match the ABI before execution", async () => {
+  const local = new prover.Prover(secretCircuit as CompiledCircuit);
+  try {
+    const { success, ...valid }: InputMap = await check_secret_inputs();
+    const wrong = { ...valid, identity_len: 256, tx_hash: "0x" + valid.tx_hash, password: (valid.password as number[]).slice(1), salt: [] };
+
+    const error = await local.execute(wrong).catch((error) => error);
+    expect(error).toBeInstanceOf(errors.AbiValidationError);
+    expect(error.code).toBe("ABI_MISMATCH");
+    expect(error.problems).toEqual([
+      { path: "identity_len", message: "256 is out of range for u8" },
+      { path: "tx_hash", message: "expected str<64>, got 66 bytes" },
+      { path: "success", message: "missing bool" },
+      { path: "password", message: "expected [u8; 32], got 31 elements" },
+      { path: "salt", message: "not a parameter of the circuit" },
+    ]);
+    const unchecked = new prover.Prover(secretCircuit as CompiledCircuit, { validate: false });
+    expect(await unchecked.execute(wrong).catch((error) => error)).toBeInstanceOf(errors.WitnessExecutionError);
+    await unchecked.destroy();
+  } finally {
+    await local.destroy();
+  }
+});
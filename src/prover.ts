@@ -0,0 +1,310 @@
+import { deflattenFields, reconstructHonkProof, splitHonkProof, UltraHonkBackend } from "@aztec/bb.js";
+import { Noir } from "@noir-lang/noir_js";
+import { CompiledCircuit, InputMap } from "@noir-lang/types";
+import { assert_valid_inputs, count_public_inputs, InputValidationOptions } from "./abi";
+import { CircuitSource, resolve_circuit } from "./circuit";
+import { flattenFieldsAsArray } from "./common";
+import { HyliNoirError, ProvingError, WitnessExecutionError } from "./errors";
+import { measure, Telemetry } from "./telemetry";
+import { precomputed_verification_key } from "./verification_keys";
+import { spawn_prover_worker } from "./worker";
+
+/**
+ * Options of a Prover.
+ */
+export interface ProverOptions extends Telemetry {
+  /** Name of the circuit, as reported in logs and metrics. */
+  name?: string;
+  /**
+   * Runs witness execution and proving off the calling thread, in a Web Worker in browsers
+   * and Bun, and in a worker_threads Worker of the built library in Node.
+   */
+  worker?: boolean;
+  /**
+   * Checks the inputs against the circuit ABI before witness execution, reporting every wrong
+   * parameter at once (see `abi.validate_inputs`). Defaults to true, `false` disables the check.
+   */
+  validate?: boolean | InputValidationOptions;
+}
+
+/**
+ * The operations a Prover delegates to, either on the calling thread or in a worker.
+ */
+export interface ProverEngine {
+  verificationKey(): Promise<Uint8Array>;
+  execute(inputs: InputMap): Promise<Uint8Array>;
+  generateProof(witness: Uint8Array): Promise<number[]>;
+  verify(proof: number[]): Promise<boolean>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * Runs Noir and the UltraHonk backend on the current thread.
+ */
+export class LocalProverEngine implements ProverEngine {
+  private circuit: CompiledCircuit;
+  private noir: Noir;
+  private backend: UltraHonkBackend;
+
+  constructor(circuit: CompiledCircuit) {
+    this.circuit = circuit;
+    this.noir = new Noir(circuit);
+    this.backend = new UltraHonkBackend(circuit.bytecode);
+  }
+
+  async verificationKey(): Promise<Uint8Array> {
+    return await this.backend.getVerificationKey();
+  }
+
+  async execute(inputs: InputMap): Promise<Uint8Array> {
+    const { witness } = await this.noir.execute(inputs);
+    return witness;
+  }
+
+  async generateProof(witness: Uint8Array): Promise<number[]> {
+    const proof = await this.backend.generateProof(witness);
+    return Array.from(reconstructHonkProof(flattenFieldsAsArray(proof.publicInputs), proof.proof));
+  }
+
+  async verify(proof: number[]): Promise<boolean> {
+    const split = splitHonkProof(Uint8Array.from(proof), count_public_inputs(this.circuit.abi));
+    return await this.backend.verifyProof({ publicInputs: deflattenFields(split.publicInputs), proof: split.proof });
+  }
+
+  async destroy(): Promise<void> {
+    await this.backend.destroy();
+  }
+}
+
+/**
+ * A long-lived prover for one circuit.
+ * The Noir program and the UltraHonk backend are initialised once, the verification key
+ * is derived once, and proofs can then be generated in a row. Proofs requested concurrently
+ * are queued, as the backend handles one proof at a time.
+ * A circuit given as a loader is only loaded on first use.
+ *
+ * Call `destroy()` to release the WASM resources once the prover is no longer needed.
+ */
+export class Prover {
+  readonly name: string;
+  readonly telemetry: Telemetry;
+  private source: CircuitSource;
+  private worker: boolean;
+  private validation?: InputValidationOptions;
+  private circuit?: Promise<CompiledCircuit>;
+  private engine?: Promise<ProverEngine>;
+  private vk?: Promise<Uint8Array>;
+  private queue: Promise<unknown> = Promise.resolve();
+  private destroyed = false;
+
+  constructor(circuit: CircuitSource, options: ProverOptions = {}) {
+    this.source = circuit;
+    this.name = options.name ?? "circuit";
+    this.telemetry = { logger: options.logger, metrics: options.metrics };
+    this.worker = options.worker ?? false;
+    this.validation = options.validate === false ? undefined : typeof options.validate == "object" ? options.validate : {};
+    if (typeof circuit != "function") {
+      this.getEngine();
+    }
+  }
+
+  /**
+   * Returns the compiled circuit, loaded on first call if the Prover was given a loader.
+   */
+  compiledCircuit(): Promise<CompiledCircuit> {
+    if (!this.circuit) {
+      this.circuit = resolve_circuit(this.source);
+      this.circuit.catch(() => (this.circuit = undefined));
+    }
+    return this.circuit;
+  }
+
+  /**
+   * Returns the verification key of the circuit, derived on first call.
+   * The precomputed keys of the bundled circuits are used as is, without deriving them.
+   */
+  verificationKey(): Promise<Uint8Array> {
+    this.assertAlive();
+    if (!this.vk) {
+      this.vk = this.compiledCircuit().then(async (circuit) => {
+        const precomputed = await precomputed_verification_key(circuit);
+        if (precomputed) {
+          return precomputed;
+        }
+        const engine = await this.getEngine();
+        return await this.enqueue(() => measure(this.telemetry, this.name, "verification_key", () => engine.verificationKey()));
+      });
+      // Do not memoise a failure, the next call will try again
+      this.vk.catch(() => (this.vk = undefined));
+    }
+    return this.vk;
+  }
+
+  /**
+   * Returns the program_id of the circuit, as registered on Hyli.
+   */
+  async programId(): Promise<number[]> {
+    return Array.from(await this.verificationKey());
+  }
+
+  /**
+   * Executes the circuit on the given inputs.
+   *
+   * @param inputs - The circuit inputs
+   * @param telemetry - Hooks for this call (defaults to the prover's)
+   * @returns A Promise resolving to the compressed witness
+   * @throws AbiValidationError if the inputs do not match the circuit ABI, WitnessExecutionError if the circuit rejects them
+   */
+  async execute(inputs: InputMap, telemetry: Telemetry = this.telemetry): Promise<Uint8Array> {
+    this.assertAlive();
+    const engine = await this.getEngine();
+    if (this.validation) {
+      assert_valid_inputs((await this.compiledCircuit()).abi, inputs, this.validation);
+    }
+    // The prover may have been destroyed while loading the engine or checking the inputs
+    this.assertAlive();
+    try {
+      return await measure(telemetry, this.name, "witness_execution", () => engine.execute(inputs));
+    } catch (error) {
+      if (error instanceof HyliNoirError && error.code == "WORKER_FAILED") {
+        throw error;
+      }
+      throw new WitnessExecutionError(this.name, error);
+    }
+  }
+
+  /**
+   * Generates a proof for the given inputs.
+   * The public inputs are prepended to the proof, as expected by the Hyli noir verifier.
+   *
+   * @param inputs - The circuit inputs
+   * @param telemetry - Hooks for this call (defaults to the prover's)
+   * @returns A Promise resolving to the reconstructed proof bytes
+   * @throws AbiValidationError if the inputs do not match the circuit ABI, WitnessExecutionError if the circuit rejects them,
+   * ProvingError if the backend fails
+   */
+  async prove(inputs: InputMap, telemetry: Telemetry = this.telemetry): Promise<number[]> {
+    const witness = await this.execute(inputs, telemetry);
+    this.assertAlive();
+    const engine = await this.getEngine();
+    try {
+      return await this.enqueue(() => measure(telemetry, this.name, "proof_generation", () => engine.generateProof(witness)));
+    } catch (error) {
+      if (error instanceof HyliNoirError && (error.code == "PROVER_DESTROYED" || error.code == "WORKER_FAILED")) {
+        throw error;
+      }
+      throw new ProvingError(this.name, error);
+    }
+  }
+
+  /**
+   * Verifies a proof, as returned by `prove`.
+   *
+   * @param proof - The reconstructed proof bytes
+   * @returns A Promise resolving to true if the proof is valid for this circuit
+   */
+  async verify(proof: number[]): Promise<boolean> {
+    this.assertAlive();
+    const engine = await this.getEngine();
+    return await this.enqueue(() => engine.verify(proof));
+  }
+
+  /**
+   * Releases the backend, and terminates the worker if any. The prover cannot be used afterwards.
+   */
+  async destroy(): Promise<void> {
+    if (this.destroyed) {
+      return;
+    }
+    this.destroyed = true;
+    await this.queue.catch(() => undefined);
+    const engine = await this.engine?.catch(() => undefined);
+    await engine?.destroy();
+  }
+
+  private getEngine(): Promise<ProverEngine> {
+    if (!this.engine) {
+      // A worker that failed is dropped, so that the next call starts a new one
+      const drop = () => this.engine == engine && (this.engine = undefined);
+      const engine: Promise<ProverEngine> = this.compiledCircuit().then((circuit) =>
+        this.worker ? spawn_prover_worker(circuit, drop) : new LocalProverEngine(circuit)
+      );
+      this.engine = engine;
+      engine.catch(() => (this.engine = undefined));
+    }
+    return this.engine;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    // destroy() only waits for the tasks queued before it, the later ones must not use the released engine
+    const run = () => {
+      this.assertAlive();
+      return task();
+    };
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private assertAlive(): void {
+    if (this.destroyed) {
+      throw new HyliNoirError("PROVER_DESTROYED", "Prover has been destroyed");
+    }
+  }
+}
+
+/**
+ * Runs a task with a prover for the given circuit.
+ * An existing Prover is used as is, otherwise a temporary one is created and destroyed afterwards.
+ *
+ * @param circuit - A compiled circuit, a circuit loader or an existing Prover
+ * @param task - The task to run
+ * @param options - Options of the temporary prover
+ * @returns A Promise resolving to the result of the task
+ */
+export const with_prover = async <T>(
+  circuit: CircuitSource | Prover,
+  task: (prover: Prover) => Promise<T>,
+  options: ProverOptions = {}
+): Promise<T> => {
+  if (circuit instanceof Prover) {
+    return await task(circuit);
+  }
+
+  const prover = new Prover(circuit, options);
+  try {
+    return await task(prover);
+  } finally {
+    await prover.destroy();
+  }
+};
+
+// Verification keys of the circuits given without a Prover, derived once per circuit
+const verificationKeys = new WeakMap<CompiledCircuit, Promise<Uint8Array>>();
+
+/**
+ * Returns the program_id of a circuit, as registered on Hyli.
+ * The bundled circuits use their precomputed verification key, without loading the backend. The key of
+ * another circuit is derived with a temporary Prover once, and cached for as long as the circuit is in use.
+ *
+ * @param circuit - A compiled circuit, a circuit loader or an existing Prover
+ * @param options - Options of the temporary prover
+ * @returns A Promise resolving to the program_id
+ */
+export const circuit_program_id = async (circuit: CircuitSource | Prover, options: ProverOptions = {}): Promise<number[]> => {
+  if (circuit instanceof Prover) {
+    return await circuit.programId();
+  }
+
+  const compiled = await resolve_circuit(circuit);
+  let vk = verificationKeys.get(compiled);
+  if (!vk) {
+    vk = precomputed_verification_key(compiled).then(
+      async (precomputed) => precomputed ?? (await with_prover(compiled, (prover) => prover.verificationKey(), options))
+    );
+    verificationKeys.set(compiled, vk);
+    // Do not cache a failure, the next call will try again
+    vk.catch(() => verificationKeys.delete(compiled));
+  }
+  return Array.from(await vk);
+};
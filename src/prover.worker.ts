@@ -0,0 +1,46 @@
+import { CompiledCircuit } from "@noir-lang/types";
+import { LocalProverEngine } from "./prover";
+import { serializeError, WorkerRequest, WorkerResponse } from "./worker";
+
+// ---- Worker entry point of Provers created with `{ worker: true }` ----
+
+let engine: LocalProverEngine | undefined;
+let queue: Promise<void> = Promise.resolve();
+
+const handle = async (request: WorkerRequest): Promise<unknown> => {
+  if (request.method == "init") {
+    engine = new LocalProverEngine(request.args[0] as CompiledCircuit);
+    return undefined;
+  }
+
+  if (!engine) {
+    throw new Error("Prover worker is not initialised");
+  }
+  const method = engine[request.method] as (...args: unknown[]) => Promise<unknown>;
+  return await method.apply(engine, request.args);
+};
+
+const serve = (post: (response: WorkerResponse) => void) => (request: WorkerRequest) => {
+  // Calls are handled one at a time, in the order they were sent
+  queue = queue.then(async () => {
+    try {
+      post({ id: request.id, result: await handle(request) });
+    } catch (error) {
+      post({ id: request.id, error: serializeError(error) });
+    }
+  });
+};
+
+if (typeof self != "undefined" && typeof self.postMessage == "function") {
+  const handler = serve((response) => self.postMessage(response));
+  self.onmessage = (event: MessageEvent<WorkerRequest>) => handler(event.data);
+} else {
+  // A failure ends the worker with an uncaught rejection, whose error event rejects the calls of the caller
+  import("node:worker_threads").then(({ parentPort }) => {
+    if (!parentPort) {
+      throw new Error("Prover worker must be started as a worker thread");
+    }
+    const port = parentPort;
+    port.on("message", serve((response) => port.postMessage(response)));
+  });
+}
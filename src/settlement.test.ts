@@ -0,0 +1,84 @@
+import { expect, test } from "bun:test";
+import { settlement } from "./lib";
+import { fake_timer, stand_in_node } from "./testing";
+
+const tx_hash = "ab".repeat(32);
+
+// A stand-in node answering the polls in turn, and a clock advanced by each sleep
+const polledNode = (responses: unknown[], contracts: unknown[] = []) => {
+  const { node } = stand_in_node({ getUnsettledTx: responses, getContract: contracts });
+  const { delays, sleep, now } = fake_timer();
+  return { node, delays, options: { sleep, now } };
+};
+
+const unsettled = (...blobs: { contract_name: string; proofs: boolean[] }[]): settlement.UnsettledTransaction => {
+  const proof = (success: boolean) => ({ hyli_output: { success, next_state: [1, 2, 3, 4] } });
+  const listed = blobs.map(({ contract_name, proofs }) => ({ contract_name, proofs: proofs.map(proof) }));
+  return { identity: "bob@check_secret", hash: tx_hash, blobs: listed };
+};
+const notFound = new Error("Getting unsettled transaction: 404 Not Found");
+
+test("waits for a transaction to leave the unsettled ones with a growing delay", async () => {
+  const pending = unsettled({ contract_name: "check_secret", proofs: [] }, { contract_name: "token", proofs: [true] });
+  const { node, delays, options } = polledNode([notFound, pending, new Error("503 Service Unavailable"), pending, notFound]);
+
+  expect(await settlement.wait_for_settlement(node, tx_hash, options)).toEqual({ status: "left_unsettled", tx_hash });
+  expect(delays).toEqual([500, 750, 1125, 1687.5]);
+});
+
+test("reports the contracts whose proof is missing or rejected", async () => {
+  const pending = unsettled({ contract_name: "check_secret", proofs: [false] }, { contract_name: "token", proofs: [] });
+  const timedOut = polledNode([pending]);
+  expect(await settlement.wait_for_settlement(timedOut.node, tx_hash, { ...timedOut.options, timeout_ms: 2_000 })).toEqual({
+    status: "timed_out",
+    tx_hash,
+    missing_proofs: ["token"],
+    rejected: ["check_secret"],
+  });
+  expect(timedOut.delays).toEqual([500, 750, 750]);
+
+  const failed = polledNode([pending, notFound]);
+  expect(await settlement.wait_for_settlement(failed.node, tx_hash, failed.options)).toEqual({
+    status: "failed",
+    tx_hash,
+    rejected: ["check_secret"],
+  });
+});
+
+test("reports a transaction settled once its contracts are in the proven states", async () => {
+  const proven = unsettled({ contract_name: "check_secret", proofs: [false, true] }, { contract_name: "token", proofs: [true] });
+  const contract = (name: string, state: number[]) => ({ name, program_id: [9], state, verifier: "noir" });
+
+  const settled = polledNode([proven, notFound], [contract("check_secret", [1, 2, 3, 4]), contract("token", [1, 2, 3, 4])]);
+  expect(await settlement.wait_for_settlement(settled.node, tx_hash, settled.options)).toEqual({ status: "settled", tx_hash });
+
+  // The token contract is not in the proven state, the node may have timed the transaction out
+  const moved = polledNode([proven, notFound], [contract("check_secret", [1, 2, 3, 4]), contract("token", [0, 0, 0, 0])]);
+  expect(await settlement.wait_for_settlement(moved.node, tx_hash, moved.options)).toEqual({ status: "left_unsettled", tx_hash });
+});
+
+test("rejects unsettled transactions of another shape", async () => {
+  const blobs = [{ contract_name: "token", proofs: [{ success: true }] }];
+  const { node, options } = polledNode([{ identity: "bob@check_secret", hash: tx_hash, blobs }]);
+  await expect(settlement.wait_for_settlement(node, tx_hash, options)).rejects.toThrow(
+    expect.objectContaining({ code: "NODE_REQUEST_FAILED", message: expect.stringContaining("Unexpected unsettled transaction") })
+  );
+});
+
+test("gives up sooner on a transaction the node never lists", async () => {
+  const never = polledNode([notFound]);
+  expect(await settlement.wait_for_settlement(never.node, tx_hash, never.options)).toEqual({ status: "not_found", tx_hash });
+  expect(never.delays.reduce((total, delay) => total + delay)).toBe(10_000);
+
+  const short = polledNode([notFound]);
+  const result = await settlement.wait_for_settlement(short.node, tx_hash, { ...short.options, timeout_ms: 1_000 });
+  expect(result).toEqual({ status: "not_found", tx_hash });
+  expect(short.delays).toEqual([500, 500]);
+});
+
+test("stops on permanent node errors", async () => {
+  const { node, options } = polledNode([new Error("400 Bad Request")]);
+  await expect(settlement.wait_for_settlement(node, tx_hash, options)).rejects.toThrow(
+    expect.objectContaining({ code: "NODE_REQUEST_FAILED" })
+  );
+});
@@ -0,0 +1,182 @@
+import { NodeApiHttpClient, UnsettledBlobTransaction } from "hyli";
+import { HyliNoirError } from "./errors";
+import { error_message, is_not_found, is_temporary_error, with_retry } from "./node";
+
+/**
+ * The outcome of a blob transaction, as observed by `wait_for_settlement`.
+ * The node only lists unsettled transactions, so a transaction that left them is told settled by the state of its contracts:
+ * - `settled`: every blob had a successful proof when last listed, and every contract is now in the `next_state` of its proof
+ * - `left_unsettled`: the transaction left the node's unsettled transactions, but whether it settled or was timed out by
+ * the node is unknown: a proof arrived after the last poll, or a contract's state moved past the one of its proof
+ * - `failed`: a proof with an unsuccessful output was received for the `rejected` contracts, which fails the transaction
+ * - `timed_out`: the transaction was still unsettled at the timeout, waiting for the proofs of the `missing_proofs` contracts
+ * - `not_found`: the node did not list the transaction in time, which was not sequenced yet or left the unsettled
+ * transactions before the first poll
+ */
+export type SettlementResult =
+  | { status: "settled"; tx_hash: string }
+  | { status: "left_unsettled"; tx_hash: string }
+  | { status: "failed"; tx_hash: string; rejected: string[] }
+  | { status: "timed_out"; tx_hash: string; missing_proofs: string[]; rejected: string[] }
+  | { status: "not_found"; tx_hash: string };
+
+/**
+ * Options of `wait_for_settlement`.
+ */
+export interface SettlementOptions {
+  /** How long to wait for the transaction to settle. Defaults to 60 seconds. */
+  timeout_ms?: number;
+  /** How long to wait for the node to list a transaction it has not listed yet. Defaults to 10 seconds. */
+  not_listed_timeout_ms?: number;
+  /** Delay before the second poll. Defaults to 500ms. */
+  poll_interval_ms?: number;
+  /** Factor the delay grows by after each poll. Defaults to 1.5. */
+  backoff?: number;
+  /** Longest delay between two polls. Defaults to 5 seconds. */
+  max_poll_interval_ms?: number;
+  /** Waits between polls, defaults to `setTimeout`. */
+  sleep?: (ms: number) => Promise<void>;
+  /** Clock, defaults to `Date.now`. */
+  now?: () => number;
+}
+
+/**
+ * A proof received for a blob of an unsettled transaction, with the output of its program.
+ */
+export interface UnsettledBlobProof {
+  hyli_output: { success: boolean; next_state: number[] };
+}
+
+/**
+ * A blob of an unsettled transaction: its contract and the proofs the node received for it.
+ */
+export interface UnsettledBlob {
+  contract_name: string;
+  proofs: UnsettledBlobProof[];
+}
+
+/**
+ * An unsettled blob transaction, as `getUnsettledTx` lists it.
+ */
+export interface UnsettledTransaction extends UnsettledBlobTransaction {
+  blobs: UnsettledBlob[];
+}
+
+/**
+ * Waits for a blob transaction to settle, polling the node for it with a growing delay.
+ * A transaction is unsettled as long as the node lists it, and leaves the unsettled transactions once every blob is
+ * proven or once the node times it out. Until the node lists it, the transaction is assumed not to be sequenced yet,
+ * which is given up on sooner as it may have left the unsettled transactions before the first poll.
+ * Temporary node errors are ignored until the timeout.
+ *
+ * @param node - The NodeApiHttpClient instance to interact with the node
+ * @param tx_hash - The hash of the blob transaction, as returned by `sendBlobTx`
+ * @param options - The timeout and the delay between polls
+ * @returns A Promise resolving to the outcome, with the contracts whose proof is missing or was rejected
+ * @throws HyliNoirError with code `NODE_REQUEST_FAILED` if the node fails with a permanent error
+ */
+export const wait_for_settlement = async (
+  node: NodeApiHttpClient,
+  tx_hash: string,
+  options: SettlementOptions = {}
+): Promise<SettlementResult> => {
+  const {
+    timeout_ms = 60_000,
+    not_listed_timeout_ms = 10_000,
+    poll_interval_ms = 500,
+    backoff = 1.5,
+    max_poll_interval_ms = 5_000,
+  } = options;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const now = options.now ?? Date.now;
+
+  const start = now();
+  const deadline = start + timeout_ms;
+  const not_listed_deadline = start + Math.min(not_listed_timeout_ms, timeout_ms);
+  let delay = poll_interval_ms;
+  let last: UnsettledTransaction | undefined;
+
+  for (;;) {
+    let listed: UnsettledBlobTransaction | undefined;
+    try {
+      listed = await node.getUnsettledTx(tx_hash);
+    } catch (error) {
+      // A transaction not listed yet may not be sequenced yet, once listed it is gone when settled
+      if (is_not_found(error) && last) {
+        return await leftOutcome(node, tx_hash, last, sleep);
+      }
+      if (!is_not_found(error) && !is_temporary_error(error)) {
+        throw new HyliNoirError("NODE_REQUEST_FAILED", `Failed to get unsettled transaction ${tx_hash}: ${error_message(error)}`, error);
+      }
+    }
+    if (listed) {
+      last = parseUnsettled(tx_hash, listed);
+    }
+
+    const remaining = (last ? deadline : not_listed_deadline) - now();
+    if (remaining <= 0) {
+      if (!last) {
+        return { status: "not_found", tx_hash };
+      }
+      const { missing_proofs, rejected } = proofStatus(last);
+      return { status: "timed_out", tx_hash, missing_proofs, rejected };
+    }
+    await sleep(Math.min(delay, remaining));
+    delay = Math.min(delay * backoff, max_poll_interval_ms);
+  }
+};
+
+// A transaction with a rejected proof fails, one proven with its contracts in the proven states settled
+const leftOutcome = async (
+  node: NodeApiHttpClient,
+  tx_hash: string,
+  last: UnsettledTransaction,
+  sleep: (ms: number) => Promise<void>
+): Promise<SettlementResult> => {
+  const { missing_proofs, rejected } = proofStatus(last);
+  if (rejected.length > 0) {
+    return { status: "failed", tx_hash, rejected };
+  }
+  if (missing_proofs.length > 0) {
+    return { status: "left_unsettled", tx_hash };
+  }
+  for (const blob of last.blobs) {
+    const { state } = await with_retry(`get contract ${blob.contract_name}`, () => node.getContract(blob.contract_name), { sleep });
+    const proven = blob.proofs.filter(({ hyli_output }) => hyli_output.success).map(({ hyli_output }) => hyli_output.next_state);
+    if (!proven.some((next_state) => sameBytes(next_state, state))) {
+      return { status: "left_unsettled", tx_hash };
+    }
+  }
+  return { status: "settled", tx_hash };
+};
+
+const proofStatus = (tx: UnsettledTransaction): { missing_proofs: string[]; rejected: string[] } => {
+  const missing_proofs: string[] = [];
+  const rejected: string[] = [];
+  for (const { contract_name, proofs } of tx.blobs) {
+    if (proofs.length == 0) {
+      missing_proofs.push(contract_name);
+    } else if (proofs.every(({ hyli_output }) => !hyli_output.success)) {
+      rejected.push(contract_name);
+    }
+  }
+  return { missing_proofs, rejected };
+};
+
+// The node's answer is checked against UnsettledTransaction, rather than read as whatever it holds
+const parseUnsettled = (tx_hash: string, tx: UnsettledBlobTransaction): UnsettledTransaction => {
+  const valid = (tx.blobs as Partial<UnsettledBlob>[]).every(
+    (blob) =>
+      typeof blob?.contract_name == "string" &&
+      Array.isArray(blob.proofs) &&
+      blob.proofs.every(({ hyli_output }) => typeof hyli_output?.success == "boolean" && Array.isArray(hyli_output.next_state))
+  );
+  if (!Array.isArray(tx.blobs) || !valid) {
+    throw new HyliNoirError("NODE_REQUEST_FAILED", `Unexpected unsettled transaction ${tx_hash} from the node: ${JSON.stringify(tx)}`);
+  }
+  return tx as UnsettledTransaction;
+};
+
+const sameBytes = (a: number[], b: number[]): boolean => {
+  return a.length == b.length && a.every((byte, i) => byte == b[i]);
+};
@@ -0,0 +1,63 @@
+/**
+ * A logger the library reports to. `console` is a valid Logger.
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * The timed stages of a proof.
+ * - `generate_inputs`: building circuit inputs outside of the circuit (e.g. `generateInputs` for JWTs)
+ * - `witness_execution`: executing the circuit to compute the witness
+ * - `proof_generation`: generating the UltraHonk proof from the witness
+ * - `verification_key`: deriving the verification key (program_id) of the circuit
+ */
+export type ProvingStage = "generate_inputs" | "witness_execution" | "proof_generation" | "verification_key";
+
+/**
+ * The timing of a proving stage.
+ */
+export interface ProvingMetric {
+  circuit: string;
+  stage: ProvingStage;
+  duration_ms: number;
+  success: boolean;
+}
+
+/**
+ * Hooks receiving the library's logs and proving metrics. Nothing is reported by default.
+ */
+export interface Telemetry {
+  logger?: Logger;
+  metrics?: (metric: ProvingMetric) => void;
+}
+
+/**
+ * Runs a proving stage, reporting its duration to the telemetry hooks.
+ *
+ * @param telemetry - The hooks to report to
+ * @param circuit - The name of the circuit
+ * @param stage - The stage being run
+ * @param task - The stage itself
+ * @returns A Promise resolving to the result of the task
+ */
+export const measure = async <T>(telemetry: Telemetry, circuit: string, stage: ProvingStage, task: () => Promise<T>): Promise<T> => {
+  const startTime = performance.now();
+  const report = (success: boolean) => {
+    const duration_ms = performance.now() - startTime;
+    telemetry.metrics?.({ circuit, stage, duration_ms, success });
+    telemetry.logger?.debug(`[${circuit}] ${stage} ${success ? "done" : "failed"} in ${duration_ms.toFixed(0)}ms`);
+  };
+
+  try {
+    const result = await task();
+    report(true);
+    return result;
+  } catch (error) {
+    report(false);
+    throw error;
+  }
+};
@@ -0,0 +1,133 @@
+// ---- Helpers shared by the tests ----
+
+import { InputMap } from "@noir-lang/types";
+import { NodeApiHttpClient } from "hyli";
+import { assert_valid_inputs } from "./abi";
+import { build_blob, hash_password } from "./check_secret";
+import { encode_hyli_output_v1, HyliOutput } from "./hyli_output";
+import { Prover } from "./prover";
+
+/**
+ * A Prover executing the witness instead of proving, as proving needs the CRS.
+ * Its proofs are `[1, 2, 3]` and its program_id is `[9]`.
+ */
+export class WitnessProver extends Prover {
+  executed: InputMap[] = [];
+
+  async prove(inputs: InputMap): Promise<number[]> {
+    await this.execute(inputs);
+    this.executed.push(inputs);
+    return [1, 2, 3];
+  }
+
+  async programId(): Promise<number[]> {
+    return [9];
+  }
+}
+
+/**
+ * A WitnessProver only checking the inputs against the ABI, for circuits the installed ACVM cannot execute,
+ * such as the bundled check_jwt circuit compiled with an older Noir.
+ */
+export class AbiCheckingProver extends WitnessProver {
+  async execute(inputs: InputMap): Promise<Uint8Array> {
+    assert_valid_inputs((await this.compiledCircuit()).abi, inputs);
+    return new Uint8Array();
+  }
+}
+
+/**
+ * The inputs of the check_secret circuit for a login of `myuser@wallet` with the password `mypassword123`.
+ */
+export const check_secret_inputs = async () => {
+  const identity = "myuser@wallet";
+  const password = "mypassword123";
+  const blob = await build_blob(identity, password);
+  const output: HyliOutput = {
+    initial_state: [0, 0, 0, 0],
+    next_state: [0, 0, 0, 0],
+    identity,
+    index: 0,
+    blobs: [{ index: 0, contract_name: "check_secret", data: blob.data }],
+    tx_blob_count: 1,
+    tx_hash: "241cc3c3c04120a6a55dbc852b1fa3f5f84589b9d56671fc503524435cd2b2d4",
+    success: true,
+  };
+  return {
+    ...encode_hyli_output_v1(output, { identity_max: 256, blob_name_max: 256, blob_data_max: 32 }),
+    password: Array.from(await hash_password(password)),
+  };
+};
+
+type NodeMethod = {
+  [M in keyof NodeApiHttpClient]: NodeApiHttpClient[M] extends (...args: never[]) => unknown ? M : never;
+}[keyof NodeApiHttpClient];
+
+/**
+ * A local stand-in of the node. Each method answers its requests with its responses in turn, the last one
+ * repeating, and throws the responses that are errors. The requests are recorded in `requests`.
+ */
+export const stand_in_node = (responses: { [M in NodeMethod]?: unknown[] }) => {
+  const requests: { method: NodeMethod; args: unknown[] }[] = [];
+  const node: Partial<Record<NodeMethod, (...args: unknown[]) => Promise<unknown>>> = {};
+  for (const [method, answers] of Object.entries(responses) as [NodeMethod, unknown[]][]) {
+    let count = 0;
+    node[method] = async (...args) => {
+      requests.push({ method, args });
+      const response = answers[Math.min(count++, answers.length - 1)];
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response;
+    };
+  }
+  return { node: node as unknown as NodeApiHttpClient, requests };
+};
+
+/**
+ * A local stand-in of an HTTP server, answering the fetches with the JSON bodies in turn, the last one repeating.
+ * The fetched URLs are recorded in `calls`.
+ */
+export const stand_in_fetch = (responses: { body: unknown; headers?: Record<string, string> }[]) => {
+  const calls: string[] = [];
+  const fetch = async (url: string) => {
+    calls.push(url);
+    const { body, headers } = responses[Math.min(calls.length, responses.length) - 1];
+    return new Response(JSON.stringify(body), { headers });
+  };
+  return { calls, fetch };
+};
+
+/**
+ * A clock advanced by each sleep, which records its delays.
+ */
+export const fake_timer = () => {
+  let time = 0;
+  const delays: number[] = [];
+  const sleep = async (ms: number) => {
+    delays.push(ms);
+    time += ms;
+  };
+  return { delays, sleep, now: () => time };
+};
+
+/**
+ * Generates an RSA key to sign test JWTs with, exported as the JWK of the given kid.
+ */
+export const jwt_signer = async (kid: string) => {
+  const { publicKey, privateKey } = await crypto.subtle.generateKey(
+    { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+    true,
+    ["sign", "verify"]
+  );
+  const pubkey = { ...(await crypto.subtle.exportKey("jwk", publicKey)), kid };
+
+  const b64url = (value: object | Uint8Array) =>
+    Buffer.from(value instanceof Uint8Array ? value : new TextEncoder().encode(JSON.stringify(value))).toString("base64url");
+  const sign = async (payload: object, header: object = { alg: "RS256", kid, typ: "JWT" }) => {
+    const signed = `${b64url(header)}.${b64url(payload)}`;
+    const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", privateKey, new TextEncoder().encode(signed));
+    return `${signed}.${b64url(new Uint8Array(signature))}`;
+  };
+  return { pubkey, sign };
+};
@@ -0,0 +1,21 @@
+import { expect, test } from "bun:test";
+import { tx_hash } from "./lib";
+
+const canonical = "241cc3c3c04120a6a55dbc852b1fa3f5f84589b9d56671fc503524435cd2b2d4";
+
+test("parses transaction hashes into their canonical form", () => {
+  expect(tx_hash.parse_tx_hash(canonical)).toBe(canonical);
+  expect(tx_hash.parse_tx_hash(`0x${canonical.toUpperCase()}`)).toBe(canonical);
+  expect(tx_hash.parse_tx_hash(tx_hash.tx_hash_to_bytes(canonical))).toBe(canonical);
+  expect(tx_hash.parse_tx_hash(Array.from(tx_hash.tx_hash_to_bytes(canonical)))).toBe(canonical);
+});
+
+test("rejects malformed transaction hashes", () => {
+  const invalid = expect.objectContaining({ code: "INVALID_TX_HASH" });
+  expect(() => tx_hash.parse_tx_hash(canonical.slice(2))).toThrow(invalid);
+  expect(() => tx_hash.parse_tx_hash(`${canonical}00`)).toThrow(invalid);
+  expect(() => tx_hash.parse_tx_hash(`0x${canonical.slice(0, 62)}zz`)).toThrow(invalid);
+  expect(() => tx_hash.parse_tx_hash(new Uint8Array(31))).toThrow(invalid);
+  expect(() => tx_hash.parse_tx_hash(new Array(32).fill(256))).toThrow(invalid);
+  expect(tx_hash.is_tx_hash("0x1234")).toBe(false);
+});
@@ -0,0 +1,57 @@
+import { assert, encodeToHex, hexToBytes } from "./common";
+
+/**
+ * A transaction hash in its canonical form: 64 lowercase hex characters, without `0x` prefix.
+ */
+export type TxHash = string;
+
+/**
+ * The accepted representations of a transaction hash: a hex string, with or without `0x`
+ * prefix and in any case, or its 32 bytes.
+ */
+export type TxHashInput = string | Uint8Array | number[];
+
+/**
+ * Parses a transaction hash into its canonical form.
+ *
+ * @param value - The hash as a hex string or as bytes
+ * @returns The canonical transaction hash
+ * @throws InputError with code `INVALID_TX_HASH` if the value is not a 32-byte hash
+ */
+export const parse_tx_hash = (value: TxHashInput): TxHash => {
+  if (typeof value != "string") {
+    assert(value.length == 32, `Tx hash is ${value.length} bytes, not 32 bytes`, "INVALID_TX_HASH");
+    assert(
+      Array.from(value).every((byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255),
+      "Tx hash bytes are not all in 0..255",
+      "INVALID_TX_HASH"
+    );
+    return encodeToHex(Uint8Array.from(value));
+  }
+
+  const hex = value.trim().replace(/^0x/i, "");
+  assert(/^[0-9a-fA-F]{64}$/.test(hex), `Tx hash "${value}" is not a 32-byte hex hash`, "INVALID_TX_HASH");
+  return hex.toLowerCase();
+};
+
+/**
+ * Returns true if the value is a valid transaction hash, in any accepted representation.
+ */
+export const is_tx_hash = (value: TxHashInput): boolean => {
+  try {
+    parse_tx_hash(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Returns the 32 bytes of a transaction hash.
+ *
+ * @param value - The hash as a hex string or as bytes
+ * @returns The bytes of the hash
+ */
+export const tx_hash_to_bytes = (value: TxHashInput): Uint8Array => {
+  return hexToBytes(parse_tx_hash(value));
+};
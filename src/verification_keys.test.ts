@@ -0,0 +1,50 @@
+import { expect, test } from "bun:test";
+import { CompiledCircuit } from "@noir-lang/types";
+import secretCircuit from "../check-secret/target/check_secret.json";
+import { encodeToHex, sha256, stringToBytes } from "./common";
+import { check_secret, contract } from "./lib";
+import { BB_VERSION, BUNDLED_VERIFICATION_KEYS, precomputed_verification_key, VerificationKeys } from "./verification_keys";
+
+const circuit = secretCircuit as CompiledCircuit;
+
+test("looks up precomputed verification keys by circuit hash and bytecode", async () => {
+  const keys: VerificationKeys = {
+    bb_version: BB_VERSION,
+    circuits: {
+      "10871151069518277438": {
+        name: "check_secret",
+        bytecode_sha256: encodeToHex(await sha256(stringToBytes(circuit.bytecode))),
+        vk: "0102ff",
+      },
+    },
+  };
+
+  expect(await precomputed_verification_key(circuit, keys)).toEqual(Uint8Array.from([1, 2, 255]));
+  expect(await precomputed_verification_key({ ...circuit, bytecode: circuit.bytecode.slice(1) }, keys)).toBeUndefined();
+  expect(await precomputed_verification_key({ ...circuit, hash: 1 } as CompiledCircuit, keys)).toBeUndefined();
+  // Another bb.js version may derive another key
+  expect(await precomputed_verification_key(circuit, { ...keys, bb_version: "0.87.0" })).toBeUndefined();
+});
+
+test("resolves the program_id of a bundled contract without a backend", async () => {
+  const circuits = BUNDLED_VERIFICATION_KEYS.circuits;
+  const bytecode_sha256 = encodeToHex(await sha256(stringToBytes(circuit.bytecode)));
+  BUNDLED_VERIFICATION_KEYS.circuits = { ...circuits, "10871151069518277438": { name: "check_secret", bytecode_sha256, vk: "0102ff" } };
+  try {
+    // A backend would derive the real key, and needs the CRS
+    expect(await check_secret.contract.programId()).toEqual([1, 2, 255]);
+  } finally {
+    BUNDLED_VERIFICATION_KEYS.circuits = circuits;
+  }
+});
+
+test("reads the program_id from a Prover", async () => {
+  const prover = check_secret.create_prover();
+  prover.verificationKey = async () => Uint8Array.from([4, 5, 6]);
+  try {
+    expect(await contract.program_id(prover)).toEqual([4, 5, 6]);
+    expect(await check_secret.contract.programId(prover)).toEqual([4, 5, 6]);
+  } finally {
+    await prover.destroy();
+  }
+});
@@ -0,0 +1,50 @@
+import { CompiledCircuit } from "@noir-lang/types";
+import { peerDependencies } from "../package.json";
+import { encodeToHex, hexToBytes, sha256, stringToBytes } from "./common";
+import bundled from "./verification_keys.json";
+
+/**
+ * Precomputed verification keys, as generated by `bun run verification_keys` for the bb.js version
+ * the library is built with. Circuits are keyed by their Nargo hash.
+ */
+export interface VerificationKeys {
+  /** The bb.js version the keys were derived with. */
+  bb_version: string;
+  circuits: Record<string, { name: string; bytecode_sha256: string; vk: string }>;
+}
+
+/**
+ * The bb.js version the library is built with, which its exact peer dependency requires to be installed.
+ */
+export const BB_VERSION: string = peerDependencies["@aztec/bb.js"];
+
+/**
+ * The verification keys of the bundled circuits, as committed in src/verification_keys.json.
+ */
+export const BUNDLED_VERIFICATION_KEYS: VerificationKeys = bundled;
+
+/**
+ * Returns the precomputed verification key of a circuit, without loading the backend.
+ * The key is only returned if it was derived with the bb.js version in use, which may compute another key,
+ * and if the circuit's bytecode is the one it was derived from.
+ *
+ * @param circuit - The compiled circuit
+ * @param keys - The precomputed keys to look the circuit up in (defaults to those of the bundled circuits)
+ * @param bb_version - The bb.js version in use (defaults to the one the library is built with)
+ * @returns A Promise resolving to the verification key, or undefined if it was not precomputed
+ */
+export const precomputed_verification_key = async (
+  circuit: CompiledCircuit,
+  keys: VerificationKeys = BUNDLED_VERIFICATION_KEYS,
+  bb_version: string = BB_VERSION
+): Promise<Uint8Array | undefined> => {
+  if (keys.bb_version != bb_version) {
+    return undefined;
+  }
+  const { hash } = circuit as CompiledCircuit & { hash?: unknown };
+  const entry = hash == undefined ? undefined : keys.circuits[String(hash)];
+  if (!entry || encodeToHex(await sha256(stringToBytes(circuit.bytecode))) != entry.bytecode_sha256) {
+    return undefined;
+  }
+  return hexToBytes(entry.vk);
+};
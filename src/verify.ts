@@ -0,0 +1,33 @@
+import { ProofTransaction } from "hyli";
+import { CircuitSource } from "./circuit";
+import { Prover, with_prover } from "./prover";
+
+/**
+ * Verifies a proof transaction locally against a compiled circuit.
+ * The public inputs are split back out of the reconstructed proof, the proof is checked
+ * with the UltraHonk backend, and the transaction's program_id must match the circuit's
+ * verification key.
+ *
+ * @param proofTx - The proof transaction to verify
+ * @param circuit - The compiled Noir circuit the proof was generated with, or its Prover
+ * @returns A Promise resolving to true if the proof is valid for this circuit
+ */
+export const verify_proof = async (proofTx: ProofTransaction, circuit: CircuitSource | Prover): Promise<boolean> => {
+  if (proofTx.verifier != "noir") {
+    return false;
+  }
+
+  return await with_prover(circuit, async (prover) => {
+    const program_id = await prover.programId();
+    if (!bytesEqual(program_id, proofTx.program_id)) {
+      return false;
+    }
+
+    // Malformed proofs make the backend throw, they are simply invalid here
+    return await prover.verify(proofTx.proof).catch(() => false);
+  });
+};
+
+const bytesEqual = (a: number[], b: number[]): boolean => {
+  return a.length == b.length && a.every((byte, i) => byte == b[i]);
+};
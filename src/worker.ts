@@ -0,0 +1,160 @@
+import { CompiledCircuit, InputMap } from "@noir-lang/types";
+import { HyliNoirError } from "./errors";
+import type { ProverEngine } from "./prover";
+
+/**
+ * A call sent to the prover worker. The first call of a worker is always `init`.
+ */
+export interface WorkerRequest {
+  id: number;
+  method: "init" | keyof ProverEngine;
+  args: unknown[];
+}
+
+/**
+ * The answer of the prover worker to a call.
+ */
+export type WorkerResponse = { id: number; result: unknown } | { id: number; error: SerializedError };
+
+/**
+ * An error thrown in the worker, with its own enumerable properties.
+ */
+export type SerializedError = { name: string; message: string; [key: string]: unknown };
+
+export interface WorkerPort {
+  post(request: WorkerRequest): void;
+  terminate(): Promise<void>;
+}
+
+/**
+ * Starts a prover worker for the circuit.
+ * Browsers and Bun use a Web Worker, Node uses a worker_threads Worker.
+ * If the worker fails or exits, its pending and later calls are rejected with a `WORKER_FAILED` error.
+ *
+ * @param circuit - The compiled circuit the worker will prove
+ * @param onFailure - Called once if the worker fails or exits before the engine is destroyed
+ * @returns A ProverEngine forwarding every call to the worker
+ */
+export const spawn_prover_worker = (circuit: CompiledCircuit, onFailure?: (error: HyliNoirError) => void): ProverEngine => {
+  return new WorkerProverEngine(circuit, onFailure);
+};
+
+class WorkerProverEngine implements ProverEngine {
+  private port: Promise<WorkerPort>;
+  private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  private nextId = 0;
+  private failure?: HyliNoirError;
+  private terminated = false;
+  private onFailure?: (error: HyliNoirError) => void;
+
+  constructor(circuit: CompiledCircuit, onFailure?: (error: HyliNoirError) => void) {
+    this.onFailure = onFailure;
+    this.port = startWorker(
+      (response) => this.settle(response),
+      (error) => this.fail(error)
+    );
+    this.port.catch((error) => this.fail(error));
+    // Calls are handled in order by the worker, failures of init are reported to the next calls
+    this.call("init", [circuit]).catch(() => undefined);
+  }
+
+  verificationKey(): Promise<Uint8Array> {
+    return this.call("verificationKey", []);
+  }
+
+  execute(inputs: InputMap): Promise<Uint8Array> {
+    return this.call("execute", [inputs]);
+  }
+
+  generateProof(witness: Uint8Array): Promise<number[]> {
+    return this.call("generateProof", [witness]);
+  }
+
+  verify(proof: number[]): Promise<boolean> {
+    return this.call("verify", [proof]);
+  }
+
+  async destroy(): Promise<void> {
+    try {
+      if (!this.failure) {
+        await this.call("destroy", []);
+      }
+    } finally {
+      this.terminated = true;
+      await (await this.port.catch(() => undefined))?.terminate();
+    }
+  }
+
+  private async call<T>(method: WorkerRequest["method"], args: unknown[]): Promise<T> {
+    const port = await this.port;
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      if (this.failure) {
+        return reject(this.failure);
+      }
+      // The worker answers each method with the value of the engine method it forwards to
+      this.pending.set(id, { resolve: (value) => resolve(value as T), reject });
+      port.post({ id, method, args });
+    });
+  }
+
+  private settle(response: WorkerResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) {
+      return;
+    }
+    this.pending.delete(response.id);
+    if ("error" in response) {
+      pending.reject(deserializeError(response.error));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  // A worker that failed or exited is not used again: its calls are rejected and a new one is started on the next call
+  private fail(cause: Error): void {
+    if (this.failure || this.terminated) {
+      return;
+    }
+    this.failure = new HyliNoirError("WORKER_FAILED", `Prover worker failed: ${cause.message}`, cause);
+    for (const pending of this.pending.values()) {
+      pending.reject(this.failure);
+    }
+    this.pending.clear();
+    this.port.then((port) => port.terminate()).catch(() => undefined);
+    this.onFailure?.(this.failure);
+  }
+}
+
+const startWorker = async (onMessage: (response: WorkerResponse) => void, onError: (error: Error) => void): Promise<WorkerPort> => {
+  if (typeof globalThis.Worker != "undefined") {
+    const worker = new Worker(new URL("./prover.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => onMessage(event.data);
+    worker.onerror = (event: ErrorEvent) => onError(new Error(event.message));
+    // Bun reports the exit of a worker, browsers never close one on their own
+    worker.addEventListener("close", () => onError(new Error("exited")));
+    return {
+      post: (request) => worker.postMessage(request),
+      terminate: async () => {
+        worker.terminate();
+      },
+    };
+  }
+
+  const { start_node_worker } = await import("./node_worker");
+  return await start_node_worker(onMessage, onError);
+};
+
+/**
+ * Copies an error into a structured-clone friendly object.
+ */
+export const serializeError = (error: unknown): SerializedError => {
+  if (error instanceof Error) {
+    return { ...error, name: error.name, message: error.message };
+  }
+  return { name: "Error", message: String(error) };
+};
+
+const deserializeError = (serialized: SerializedError): Error => {
+  return Object.assign(new Error(serialized.message), serialized);
+};
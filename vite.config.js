@@ -3,6 +3,8 @@ import { defineConfig } from "vite";
 
 // https://vite.dev/config/
 export default defineConfig({
+  // Emitted assets (the prover worker) are resolved relatively to the library files
+  base: "./",
   build: {
     lib: {
       entry: "src/lib.ts",
@@ -11,11 +13,18 @@ export default defineConfig({
       formats: ["es", "cjs"],
     },
     rollupOptions: {
-      external: ["@aztec/bb.js", "@noir-lang/noirc_abi", "@noir-lang/acvm_js"],
+      external: ["@aztec/bb.js", "@noir-lang/noirc_abi", "@noir-lang/acvm_js", "node:worker_threads", "node:fs/promises"],
     },
     sourcemap: true,
     minify: true,
   },
+  worker: {
+    // The prover worker is loaded as a module, in browsers as in worker_threads
+    format: "es",
+    rollupOptions: {
+      external: ["@aztec/bb.js", "@noir-lang/noirc_abi", "@noir-lang/acvm_js", "node:worker_threads", "node:fs/promises"],
+    },
+  },
   resolve: {
     alias: {
       "@": "./src",